@@ -0,0 +1,163 @@
+import { AsmDiagnostic, ParsedLine } from '../parser/types';
+import { CycleDisplay, CycleDisplayMode } from '../metrics/cycleDisplay';
+import { ControlFlowAnalyzer, CycleRange } from './controlFlow';
+import { IndexedRoutine, RoutineIndex } from './routineIndex';
+import { RoutineSummaries } from './routineSummaries';
+
+// Cycle budgets by profile name, in single-speed T-cycles (4 per nop, 456 per scanline)
+export type BudgetProfiles = { [name: string]: number };
+
+export const DEFAULT_BUDGET_PROFILES: BudgetProfiles = {
+  vblank: 4560,     // 10 lines of mode 1
+  hblank: 204,      // Longest mode 0, shorter with sprites or scrolling
+  scanline: 456,    // One full line
+  frame: 70224      // 154 lines
+};
+
+// Fraction of the budget above which a routine is shown as nearly over it
+const NEAR_BUDGET = 0.9;
+
+export type BudgetStatus = 'ok' | 'near' | 'over' | 'unknown';
+
+// A "; @budget NAME" (or "; @budget CYCLES") annotation and its result
+export interface RoutineBudget {
+  routine: string;
+  labelLine: number;
+  annotationLine: number;
+  profile: string;
+  budget?: number;          // Undefined when the profile name isn't known
+  worstCycles?: number;     // Worst-case path total, callees included; undefined when the routine never returns
+  doubleSpeed: boolean;     // The routine is in "; @doublespeed" code, so worstCycles take half as long
+  percent?: number;         // Of the budget, in wall-clock time
+  exact: boolean;           // False when a callee couldn't be followed and counts as 0
+  unknownCalls: string[];
+  status: BudgetStatus;
+}
+
+interface CalleeTotal extends Partial<CycleRange> {
+  unknownCalls: Set<string>;
+}
+
+// Worst-case cycles of annotated routines against VBlank/scanline/frame budgets
+export class BudgetAnalyzer {
+  private totals: RoutineSummaries<CalleeTotal>;
+
+  constructor(private index: RoutineIndex, private controlFlow: ControlFlowAnalyzer, private display: CycleDisplay) {
+    this.totals = new RoutineSummaries(index);
+  }
+
+  // Budgets annotated in a file, on the label line or the comment block just above it
+  analyzeFile(filePath: string, lines: ParsedLine[], profiles: BudgetProfiles, doubleSpeedLines: Set<number> = new Set()): RoutineBudget[] {
+    const budgets: RoutineBudget[] = [];
+    for (const graph of this.index.getFile(filePath)) {
+      const annotation = this.findAnnotation(lines, graph.startLine);
+      if (!annotation) {
+        continue;
+      }
+
+      const { profile, line } = annotation;
+      const budget = /^\d+$/.test(profile) ? parseInt(profile, 10) : profiles[profile.toLowerCase()];
+      const total = this.getTotal(graph.name);
+      const worstCycles = total?.maxCycles;
+      const doubleSpeed = doubleSpeedLines.has(graph.startLine);
+      const elapsed = worstCycles !== undefined ? this.display.toWallClock(worstCycles, doubleSpeed) : undefined;
+      const percent = budget && elapsed !== undefined ? Math.round(elapsed / budget * 100) : undefined;
+      const unknownCalls = total ? Array.from(total.unknownCalls) : [];
+
+      let status: BudgetStatus = 'unknown';
+      if (budget !== undefined && elapsed !== undefined) {
+        status = elapsed > budget ? 'over' : elapsed > budget * NEAR_BUDGET ? 'near' : 'ok';
+      }
+      budgets.push({
+        routine: graph.name,
+        labelLine: graph.startLine,
+        annotationLine: line,
+        profile,
+        budget,
+        worstCycles,
+        doubleSpeed,
+        percent,
+        exact: unknownCalls.length === 0,
+        unknownCalls,
+        status
+      });
+    }
+    return budgets;
+  }
+
+  // Over-budget routines and annotations naming a profile that doesn't exist
+  createDiagnostics(budgets: RoutineBudget[], lines: ParsedLine[], profiles: BudgetProfiles): AsmDiagnostic[] {
+    const diagnostics: AsmDiagnostic[] = [];
+    for (const budget of budgets) {
+      const raw = lines[budget.annotationLine].raw;
+      const column = Math.max(raw.search(/@budget/i), 0);
+      const length = raw.length - column;
+      if (budget.budget === undefined) {
+        diagnostics.push({
+          lineNumber: budget.annotationLine, column, length, severity: 'warning', code: 'unknown-budget',
+          message: `Unknown budget profile '${budget.profile}'; known profiles: ${Object.keys(profiles).join(', ')}`
+        });
+      } else if (budget.status === 'over') {
+        diagnostics.push({
+          lineNumber: budget.annotationLine, column, length, severity: 'warning', code: 'over-budget',
+          message: `${budget.routine} takes ${budget.exact ? 'up to' : 'at least'} ${budget.worstCycles} cycles on its worst-case path${budget.doubleSpeed ? ' in double speed' : ''}, ${budget.percent}% of the ${budget.profile} budget (${budget.budget} single-speed cycles)`
+        });
+      }
+    }
+    return diagnostics;
+  }
+
+  // "vblank 62% (2840/4560c)" in wall-clock time; ≥ when a callee wasn't counted
+  formatBudget(budget: RoutineBudget, mode: CycleDisplayMode = 't-cycles'): string {
+    if (budget.budget === undefined) {
+      return `${budget.profile}: unknown budget`;
+    }
+    const limit = this.display.format(budget.budget, mode);
+    if (budget.worstCycles === undefined) {
+      return `${budget.profile}: ?/${limit} (no return path)`;
+    }
+    const bound = budget.exact ? '' : '≥';
+    const elapsed = this.display.format(this.display.toWallClock(budget.worstCycles, budget.doubleSpeed), mode);
+    return `${budget.profile} ${bound}${budget.percent}% (${bound}${elapsed}/${limit}${budget.doubleSpeed ? ', double speed' : ''})`;
+  }
+
+  // Best/worst path totals of a routine with every callee included; recursion counts as 0
+  private getTotal(name: string): CalleeTotal | undefined {
+    return this.totals.get(name, entry => this.computeTotal(entry));
+  }
+
+  private computeTotal(entry: IndexedRoutine): CalleeTotal {
+    const unknownCalls = new Set<string>();
+    const analysis = this.controlFlow.analyzeWithCallees(entry.graph, callee => {
+      const total = this.getTotal(callee);
+      if (!total) {
+        if (!this.totals.isInProgress(callee)) {
+          unknownCalls.add(callee);
+        }
+        return undefined;
+      }
+      total.unknownCalls.forEach(call => unknownCalls.add(call));
+      if (total.minCycles === undefined || total.maxCycles === undefined) {
+        // Indexed, but never returns: counted as 0 like an unresolved callee
+        unknownCalls.add(callee);
+        return undefined;
+      }
+      return { minCycles: total.minCycles, maxCycles: total.maxCycles };
+    });
+    return { minCycles: analysis.minCycles, maxCycles: analysis.maxCycles, unknownCalls };
+  }
+
+  private findAnnotation(lines: ParsedLine[], labelLine: number): { profile: string; line: number } | undefined {
+    for (let i = labelLine; i >= 0; i--) {
+      const line = lines[i];
+      if (!line || (i < labelLine && (line.label || line.instruction || !line.comment))) {
+        break;
+      }
+      const match = line.comment?.match(/@budget\s+([\w.]+)/i);
+      if (match) {
+        return { profile: match[1], line: i };
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,439 @@
+import { ParsedLine } from '../parser/types';
+import { LineCost } from '../metrics/metricsEngine';
+import { LoopAnalyzer, LoopInfo } from './loopAnalysis';
+import { FlagAnalyzer, FlagAnalysis } from './flagAnalysis';
+
+// A parsed line together with its cost, as produced by the decoration pass
+export interface AnalyzedLine {
+  parsed: ParsedLine;
+  cost: LineCost;
+}
+
+export type ExitKind = 'ret' | 'reti' | 'tailjump' | 'indirect' | 'fallthrough';
+
+export interface CfgEdge {
+  target?: number;      // Line of the successor node; undefined when the edge leaves the routine
+  exitKind?: ExitKind;  // Set for edges that leave the routine
+  minCycles: number;    // Cycles spent on the source line when following this edge
+  maxCycles: number;
+  isBackEdge?: boolean;
+}
+
+export interface CfgNode {
+  line: number;
+  parsed: ParsedLine;
+  cost: LineCost;
+  successors: CfgEdge[];
+  annotations: string[];  // Comments on this line and on the label/comment lines just above it
+}
+
+export interface RoutineGraph {
+  name: string;
+  startLine: number;
+  endLine: number;
+  entry?: number;                  // First node line, undefined for empty routines
+  nodes: Map<number, CfgNode>;
+  labels: Map<string, number>;     // Qualified local label -> first node at or after it
+}
+
+export interface CycleRange {
+  minCycles: number;
+  maxCycles: number;
+}
+
+export interface PathResult {
+  exitLine: number;
+  exitKind: ExitKind;
+  minCycles: number;
+  maxCycles: number;
+  minPath: number[];   // Lines visited on the best-case path
+  maxPath: number[];   // Lines visited on the worst-case path
+}
+
+export interface RoutineAnalysis {
+  name: string;
+  startLine: number;
+  endLine: number;
+  graph: RoutineGraph;
+  exits: PathResult[];
+  loops: LoopInfo[];
+  flags: FlagAnalysis;
+  minCycles?: number;  // Over all exits
+  maxCycles?: number;
+}
+
+// Builds per-routine control-flow graphs and best/worst path cycle totals
+export class ControlFlowAnalyzer {
+  private static readonly CONDITIONS = ['Z', 'NZ', 'C', 'NC'];
+
+  constructor(private loopAnalyzer: LoopAnalyzer, private flagAnalyzer: FlagAnalyzer) {}
+
+  analyzeDocument(lines: AnalyzedLine[]): RoutineAnalysis[] {
+    return this.buildRoutines(lines).map(graph => this.analyzePaths(graph));
+  }
+
+  // Split the document at global labels and build one graph per routine
+  buildRoutines(lines: AnalyzedLine[]): RoutineGraph[] {
+    const routines: RoutineGraph[] = [];
+    let current: RoutineGraph | undefined;
+    let pendingLabels: string[] = [];
+    let pendingComments: string[] = [];
+
+    const finish = (endLine: number) => {
+      if (current) {
+        current.endLine = endLine;
+        this.linkRoutine(current);
+        routines.push(current);
+      }
+    };
+
+    for (const line of lines) {
+      const { parsed } = line;
+
+      if (parsed.label && this.isGlobalLabel(parsed.label)) {
+        finish(parsed.lineNumber - 1);
+        current = {
+          name: parsed.label,
+          startLine: parsed.lineNumber,
+          endLine: parsed.lineNumber,
+          nodes: new Map(),
+          labels: new Map()
+        };
+        pendingLabels = [];
+        pendingComments = [];
+      } else if (parsed.label && current) {
+        pendingLabels.push(this.qualify(parsed.label, current.name));
+      }
+
+      // SECTION ends the current routine
+      if (parsed.isDirective && parsed.instruction === 'SECTION') {
+        finish(parsed.lineNumber - 1);
+        current = undefined;
+        continue;
+      }
+
+      if (!current || !this.isExecutable(line)) {
+        if (parsed.comment) {
+          pendingComments.push(parsed.comment);
+        }
+        continue;
+      }
+
+      const annotations = parsed.comment ? [...pendingComments, parsed.comment] : pendingComments;
+      current.nodes.set(parsed.lineNumber, { line: parsed.lineNumber, parsed, cost: line.cost, successors: [], annotations });
+      pendingComments = [];
+      if (current.entry === undefined) {
+        current.entry = parsed.lineNumber;
+      }
+      for (const label of pendingLabels) {
+        current.labels.set(label, parsed.lineNumber);
+      }
+      pendingLabels = [];
+    }
+
+    if (lines.length > 0) {
+      finish(lines[lines.length - 1].parsed.lineNumber);
+    }
+
+    return routines;
+  }
+
+  analyzePaths(graph: RoutineGraph): RoutineAnalysis {
+    const analysis: RoutineAnalysis = {
+      name: graph.name,
+      startLine: graph.startLine,
+      endLine: graph.endLine,
+      graph,
+      exits: [],
+      loops: [],
+      flags: { uses: [], warnings: [] }
+    };
+
+    if (graph.entry === undefined) {
+      return analysis;
+    }
+
+    analysis.flags = this.flagAnalyzer.analyzeFlags(graph);
+    this.markBackEdges(graph);
+    // Repeat costs are folded into the loop exit edges before the path search
+    analysis.loops = this.loopAnalyzer.analyzeLoops(graph);
+    const order = this.topologicalOrder(graph);
+
+    // Best/worst cycles to reach each node, with the predecessor that produced it
+    const minCost = new Map<number, number>([[graph.entry, 0]]);
+    const maxCost = new Map<number, number>([[graph.entry, 0]]);
+    const minPrev = new Map<number, number>();
+    const maxPrev = new Map<number, number>();
+    const exits = new Map<number, PathResult>();
+
+    for (const line of order) {
+      const node = graph.nodes.get(line)!;
+      const reachedMin = minCost.get(line);
+      const reachedMax = maxCost.get(line);
+      if (reachedMin === undefined || reachedMax === undefined) {
+        continue;
+      }
+
+      for (const edge of node.successors) {
+        if (edge.isBackEdge) {
+          continue;
+        }
+        const edgeMin = reachedMin + edge.minCycles;
+        const edgeMax = reachedMax + edge.maxCycles;
+
+        if (edge.target === undefined) {
+          const existing = exits.get(line);
+          if (!existing) {
+            exits.set(line, {
+              exitLine: line,
+              exitKind: edge.exitKind!,
+              minCycles: edgeMin,
+              maxCycles: edgeMax,
+              minPath: this.tracePath(minPrev, line),
+              maxPath: this.tracePath(maxPrev, line)
+            });
+          } else {
+            if (edgeMin < existing.minCycles) {
+              existing.minCycles = edgeMin;
+              existing.minPath = this.tracePath(minPrev, line);
+            }
+            if (edgeMax > existing.maxCycles) {
+              existing.maxCycles = edgeMax;
+              existing.maxPath = this.tracePath(maxPrev, line);
+            }
+          }
+          continue;
+        }
+
+        if (minCost.get(edge.target) === undefined || edgeMin < minCost.get(edge.target)!) {
+          minCost.set(edge.target, edgeMin);
+          minPrev.set(edge.target, line);
+        }
+        if (maxCost.get(edge.target) === undefined || edgeMax > maxCost.get(edge.target)!) {
+          maxCost.set(edge.target, edgeMax);
+          maxPrev.set(edge.target, line);
+        }
+      }
+    }
+
+    analysis.exits = Array.from(exits.values()).sort((a, b) => a.exitLine - b.exitLine);
+    if (analysis.exits.length > 0) {
+      analysis.minCycles = Math.min(...analysis.exits.map(exit => exit.minCycles));
+      analysis.maxCycles = Math.max(...analysis.exits.map(exit => exit.maxCycles));
+    }
+
+    return analysis;
+  }
+
+  // Path totals with the cycles of each called (or tail-jumped to) routine added to the call,
+  // on a copy of a graph as returned by buildRoutines so the graph itself is left unanalyzed
+  analyzeWithCallees(graph: RoutineGraph, calleeCycles: (name: string) => CycleRange | undefined): RoutineAnalysis {
+    const nodes = new Map<number, CfgNode>();
+    for (const [line, node] of graph.nodes) {
+      const target = this.callTarget(node);
+      const callee = target ? calleeCycles(target) : undefined;
+      const mnemonic = node.parsed.instruction?.toUpperCase();
+      const conditional = mnemonic === 'CALL' && node.parsed.operands.length > 1;
+
+      const successors = node.successors.map(edge => {
+        const copy: CfgEdge = { ...edge, isBackEdge: undefined };
+        if (!callee) {
+          return copy;
+        }
+        if (edge.exitKind === 'tailjump') {
+          copy.minCycles += callee.minCycles;
+          copy.maxCycles += callee.maxCycles;
+        } else if (mnemonic === 'CALL' || node.parsed.isPredefCall) {
+          // A conditional call may be skipped, so only the worst case grows
+          copy.minCycles += conditional ? 0 : callee.minCycles;
+          copy.maxCycles += callee.maxCycles;
+        }
+        return copy;
+      });
+      nodes.set(line, { ...node, successors });
+    }
+
+    return this.analyzePaths({ ...graph, nodes });
+  }
+
+  // Routine entered by a call, predef or jump out of this routine on this node
+  callTarget(node: CfgNode): string | undefined {
+    const { parsed } = node;
+    const mnemonic = parsed.instruction?.toUpperCase();
+    const target = parsed.isPredefCall
+      ? parsed.operands[0]?.trim()
+      : mnemonic === 'CALL' || ((mnemonic === 'JP' || mnemonic === 'JR') && node.successors.some(edge => edge.exitKind === 'tailjump'))
+        ? parsed.operands[parsed.operands.length - 1]?.trim()
+        : undefined;
+    return target && !target.startsWith('.') && !parsed.isMacroCall ? target : undefined;
+  }
+
+  // Compress a path into line ranges for display, e.g. "12-15, 20, 22-24" (1-based)
+  // Consecutive nodes only merge when nothing between them was skipped
+  formatPath(graph: RoutineGraph, path: number[]): string {
+    const nodeLines = Array.from(graph.nodes.keys()).sort((a, b) => a - b);
+    const nextNode = new Map<number, number>();
+    nodeLines.forEach((line, index) => nextNode.set(line, nodeLines[index + 1]));
+
+    const ranges: string[] = [];
+    let start = path[0];
+    let prev = path[0];
+
+    for (let i = 1; i <= path.length; i++) {
+      const line = path[i];
+      if (line !== undefined && nextNode.get(prev) === line) {
+        prev = line;
+        continue;
+      }
+      ranges.push(start === prev ? `${start + 1}` : `${start + 1}-${prev + 1}`);
+      start = prev = line;
+    }
+
+    return ranges.join(', ');
+  }
+
+  private linkRoutine(graph: RoutineGraph): void {
+    const lines = Array.from(graph.nodes.keys()).sort((a, b) => a - b);
+
+    lines.forEach((line, index) => {
+      const node = graph.nodes.get(line)!;
+      const next = lines[index + 1];
+      const fallthrough: CfgEdge = next !== undefined
+        ? { target: next, minCycles: 0, maxCycles: 0 }
+        : { exitKind: 'fallthrough', minCycles: 0, maxCycles: 0 };
+
+      const mnemonic = node.parsed.instruction?.toUpperCase();
+      const operands = node.parsed.operands;
+      const opcode = node.cost.opcode;
+      const isConditional = operands.length > 0 && ControlFlowAnalyzer.CONDITIONS.includes(operands[0].toUpperCase()) &&
+                            (mnemonic === 'RET' || operands.length > 1);
+      const taken = opcode ? opcode.cycles[0] : node.cost.maxCycles;
+      const notTaken = opcode ? (opcode.cycles[1] ?? opcode.cycles[0]) : node.cost.minCycles;
+
+      if (!node.parsed.isMacroCall && (mnemonic === 'JR' || mnemonic === 'JP')) {
+        const targetOperand = operands[operands.length - 1] || '';
+        const takenEdge = this.jumpEdge(graph, targetOperand, taken);
+        node.successors.push(takenEdge);
+        if (isConditional) {
+          node.successors.push({ ...fallthrough, minCycles: notTaken, maxCycles: notTaken });
+        }
+      } else if (!node.parsed.isMacroCall && (mnemonic === 'RET' || mnemonic === 'RETI')) {
+        node.successors.push({ exitKind: mnemonic === 'RETI' ? 'reti' : 'ret', minCycles: taken, maxCycles: taken });
+        if (isConditional) {
+          node.successors.push({ ...fallthrough, minCycles: notTaken, maxCycles: notTaken });
+        }
+      } else if (!node.parsed.isMacroCall && isConditional) {
+        // Conditional CALL: both outcomes continue with the next line
+        node.successors.push({ ...fallthrough, minCycles: notTaken, maxCycles: taken });
+      } else {
+        node.successors.push({ ...fallthrough, minCycles: node.cost.minCycles, maxCycles: node.cost.maxCycles });
+      }
+    });
+  }
+
+  private jumpEdge(graph: RoutineGraph, operand: string, cycles: number): CfgEdge {
+    const trimmed = operand.trim();
+    // jp hl, or relative targets like "jr @-4" that aren't tied to a label
+    if (/^\[?HL\]?$/i.test(trimmed) || trimmed.startsWith('@')) {
+      return { exitKind: 'indirect', minCycles: cycles, maxCycles: cycles };
+    }
+
+    const target = graph.labels.get(this.qualify(trimmed, graph.name));
+    if (target !== undefined) {
+      return { target, minCycles: cycles, maxCycles: cycles };
+    }
+    if (trimmed === graph.name && graph.entry !== undefined) {
+      return { target: graph.entry, minCycles: cycles, maxCycles: cycles };
+    }
+
+    // Anything else (another routine, an address) leaves this routine
+    return { exitKind: 'tailjump', minCycles: cycles, maxCycles: cycles };
+  }
+
+  // Depth-first search from the entry; edges back to a node on the stack close a loop
+  private markBackEdges(graph: RoutineGraph): void {
+    const state = new Map<number, 'active' | 'done'>();
+    const stack: { line: number; edgeIndex: number }[] = [{ line: graph.entry!, edgeIndex: 0 }];
+    state.set(graph.entry!, 'active');
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const node = graph.nodes.get(frame.line)!;
+
+      if (frame.edgeIndex >= node.successors.length) {
+        state.set(frame.line, 'done');
+        stack.pop();
+        continue;
+      }
+
+      const edge = node.successors[frame.edgeIndex++];
+      if (edge.target === undefined) {
+        continue;
+      }
+      const targetState = state.get(edge.target);
+      if (targetState === 'active') {
+        edge.isBackEdge = true;
+      } else if (targetState === undefined) {
+        state.set(edge.target, 'active');
+        stack.push({ line: edge.target, edgeIndex: 0 });
+      }
+    }
+  }
+
+  // Reverse post-order over forward edges only
+  private topologicalOrder(graph: RoutineGraph): number[] {
+    const visited = new Set<number>();
+    const order: number[] = [];
+    const stack: { line: number; edgeIndex: number }[] = [{ line: graph.entry!, edgeIndex: 0 }];
+    visited.add(graph.entry!);
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const node = graph.nodes.get(frame.line)!;
+
+      if (frame.edgeIndex >= node.successors.length) {
+        order.push(frame.line);
+        stack.pop();
+        continue;
+      }
+
+      const edge = node.successors[frame.edgeIndex++];
+      if (edge.target !== undefined && !edge.isBackEdge && !visited.has(edge.target)) {
+        visited.add(edge.target);
+        stack.push({ line: edge.target, edgeIndex: 0 });
+      }
+    }
+
+    return order.reverse();
+  }
+
+  private tracePath(prev: Map<number, number>, line: number): number[] {
+    const path = [line];
+    let current = prev.get(line);
+    while (current !== undefined) {
+      path.unshift(current);
+      current = prev.get(current);
+    }
+    return path;
+  }
+
+  // ENDR lines count too: they carry the REPT/FOR iterations beyond the first pass
+  private isExecutable(line: AnalyzedLine): boolean {
+    const { parsed, cost } = line;
+    if (cost.repeat) {
+      return true;
+    }
+    if (parsed.isDirective || !parsed.instruction) {
+      return false;
+    }
+    return cost.opcode !== undefined || cost.macroDef !== undefined || parsed.isPredefCall === true;
+  }
+
+  private isGlobalLabel(label: string): boolean {
+    return !label.startsWith('.') && !label.includes('.');
+  }
+
+  private qualify(label: string, routine: string): string {
+    return label.startsWith('.') ? routine + label : label;
+  }
+}
@@ -0,0 +1,140 @@
+import { ParsedLine, AsmDiagnostic } from '../parser/types';
+import { RGBDSParser } from '../parser/rgbdsParser';
+import { ExpressionEvaluator } from '../parser/expressionEvaluator';
+import { SymbolIndex } from '../parser/symbolIndex';
+import { RepeatExpander } from '../parser/repeatExpander';
+import { DocumentCosts } from '../metrics/metricsEngine';
+import { OpcodeDatabase } from '../opcodes/opcodeData';
+import { FileOffsets } from './fileOffsets';
+
+// Operand words that are never symbols
+const RESERVED_WORDS = new Set(['A', 'B', 'C', 'D', 'E', 'H', 'L', 'AF', 'BC', 'DE', 'HL', 'SP', 'HLI', 'HLD', 'Z', 'NZ', 'NC']);
+
+// Checks what rgbasm would reject (or the linker fail on) before a build:
+// invalid operand combinations, jr out of range, ldh outside $FF00-$FFFF and unknown names
+export class DiagnosticsAnalyzer {
+  constructor(
+    private parser: RGBDSParser,
+    private symbols: SymbolIndex,
+    private repeatExpander: RepeatExpander,
+    private evaluator: ExpressionEvaluator,
+    private opcodes: OpcodeDatabase
+  ) {}
+
+  analyze(filePath: string, lines: ParsedLine[], costs: DocumentCosts): AsmDiagnostic[] {
+    const diagnostics: AsmDiagnostic[] = [];
+    const offsets = new FileOffsets(lines, costs);
+    const forVariables: (string | undefined)[] = [];  // Of the enclosing REPT/FOR blocks
+
+    for (const parsed of lines) {
+      if (RepeatExpander.isBlockStart(parsed)) {
+        forVariables.push(this.repeatExpander.forVariable(parsed));
+      } else if (RepeatExpander.isBlockEnd(parsed)) {
+        forVariables.pop();
+      }
+
+      const cost = costs.lines.get(parsed.lineNumber);
+      if (!cost || !parsed.instruction || parsed.isDirective || parsed.isPredefCall) {
+        continue;
+      }
+      // Interpolated or escaped text can't be checked without expanding it first
+      if (/[{\\]/.test(this.parser.removeComments(parsed.raw))) {
+        continue;
+      }
+
+      const mnemonic = parsed.instruction;
+
+      if (parsed.isMacroCall) {
+        this.checkSymbols(parsed, offsets, forVariables, diagnostics);
+        continue;
+      }
+
+      if (!this.opcodes.isMnemonic(mnemonic) && !['LDI', 'LDD'].includes(mnemonic)) {
+        diagnostics.push(this.create(parsed, mnemonic, 'error', 'unknown-instruction',
+          `Unknown instruction or macro '${mnemonic.toLowerCase()}'`));
+        continue;
+      }
+
+      if (!cost.opcode) {
+        const operands = parsed.operands.join(', ');
+        const message = mnemonic === 'RST'
+          ? `rst vector must be one of $00, $08, $10, $18, $20, $28, $30 or $38`
+          : `'${mnemonic.toLowerCase()}${operands ? ' ' + operands : ''}' is not a valid instruction`;
+        diagnostics.push(this.create(parsed, this.parser.removeComments(parsed.raw).replace(/^.*?:+/, ''), 'error', 'invalid-operands', message));
+        continue;
+      }
+
+      if (mnemonic === 'LDH') {
+        this.checkHighAddress(parsed, diagnostics);
+      }
+      if (mnemonic === 'JR') {
+        this.checkRelativeJump(parsed, offsets, diagnostics);
+      }
+      this.checkSymbols(parsed, offsets, forVariables, diagnostics);
+    }
+
+    return diagnostics;
+  }
+
+  // ldh only reaches $FF00-$FFFF (written as the full address or the low byte)
+  private checkHighAddress(parsed: ParsedLine, diagnostics: AsmDiagnostic[]): void {
+    const memory = parsed.operands.find(op => /^[[(]/.test(op.trim()) && !/^[[(]\s*c\s*[\])]$/i.test(op.trim()));
+    if (!memory) {
+      return;
+    }
+    const address = this.evaluator.evaluate(memory.trim().slice(1, -1));
+    if (address !== undefined && !(address >= 0xFF00 && address <= 0xFFFF) && !(address >= 0 && address <= 0xFF)) {
+      const hex = (address >>> 0).toString(16).toUpperCase().padStart(4, '0');
+      diagnostics.push(this.create(parsed, memory, 'error', 'ldh-range',
+        `ldh address $${hex} is outside $FF00-$FFFF; use ld for other addresses`));
+    }
+  }
+
+  // jr reaches -128..+127 bytes from the end of the 2-byte instruction
+  private checkRelativeJump(parsed: ParsedLine, offsets: FileOffsets, diagnostics: AsmDiagnostic[]): void {
+    const target = parsed.operands[parsed.operands.length - 1];
+    const targetLine = target ? offsets.labelLine(target, parsed.lineNumber) : undefined;
+    const distance = targetLine !== undefined ? offsets.distance(parsed.lineNumber, targetLine) : undefined;
+    if (distance === undefined) {
+      return;  // Not a label of this file, or in a different section (left to the linker)
+    }
+
+    const displacement = distance - 2;
+    if (displacement < -128 || displacement > 127) {
+      diagnostics.push(this.create(parsed, target, 'error', 'jr-range',
+        `jr target '${target.trim()}' is ${displacement} bytes away (jr reaches -128 to +127); use jp`));
+    }
+  }
+
+  // Names in operands must be a label, constant or macro somewhere in the workspace, or the
+  // variable of a FOR block around them
+  private checkSymbols(parsed: ParsedLine, offsets: FileOffsets, forVariables: (string | undefined)[], diagnostics: AsmDiagnostic[]): void {
+    const constants = this.parser.getConstantTable();
+    const reported = new Set<string>();
+
+    for (const operand of parsed.operands) {
+      const text = operand.replace(/"(?:[^"\\]|\\.)*"/g, '""');
+      for (const match of text.matchAll(/(?<![\w$%&#.@])\.?[A-Za-z_][\w#@]*(?:\.[\w#@]+)?(?![\w#@.]|\s*\()/g)) {
+        const name = match[0];
+        if (RESERVED_WORDS.has(name.toUpperCase()) || reported.has(name) || forVariables.includes(name)) {
+          continue;
+        }
+        const qualified = offsets.qualify(name, parsed.lineNumber);
+        if (offsets.hasLabel(qualified) || constants.get(name) || this.symbols.getDefinitions(qualified).length > 0) {
+          continue;
+        }
+        reported.add(name);
+        diagnostics.push(this.create(parsed, name, 'warning', 'unknown-symbol', `Unknown symbol '${name}'`));
+      }
+    }
+  }
+
+  // Points at the first occurrence of `text` on the line, or the whole line
+  private create(parsed: ParsedLine, text: string, severity: AsmDiagnostic['severity'], code: string, message: string): AsmDiagnostic {
+    const source = this.parser.removeComments(parsed.raw);
+    const index = source.toUpperCase().indexOf(text.trim().toUpperCase());
+    const start = index >= 0 ? index : source.length - source.trimStart().length;
+    const length = index >= 0 ? text.trim().length : source.trim().length;
+    return { lineNumber: parsed.lineNumber, column: start, length, severity, code, message };
+  }
+}
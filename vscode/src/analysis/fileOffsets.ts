@@ -0,0 +1,62 @@
+import { ParsedLine } from '../parser/types';
+import { DocumentCosts } from '../metrics/metricsEngine';
+
+// Directives that start a new block of code, so byte offsets across them are unrelated
+const LAYOUT_DIRECTIVES = ['SECTION', 'ENDSECTION', 'PUSHS', 'POPS', 'LOAD', 'ENDL', 'UNION', 'NEXTU', 'ENDU', 'ALIGN'];
+
+// Labels of one file with the byte offset of every assembled line, for relative jump distances
+export class FileOffsets {
+  private labels = new Map<string, number>();
+  private scopes = new Map<number, string>();
+  private offsets = new Map<number, number>();
+  private layoutLines: number[] = [];
+
+  constructor(lines: ParsedLine[], costs: DocumentCosts) {
+    let scope = '';
+    let offset = 0;
+    for (const parsed of lines) {
+      const cost = costs.lines.get(parsed.lineNumber);
+      if (!cost) {
+        continue;
+      }
+      if (parsed.label) {
+        if (!parsed.label.startsWith('.')) {
+          scope = parsed.label.split('.')[0];
+        }
+        this.labels.set(parsed.label.startsWith('.') ? scope + parsed.label : parsed.label, parsed.lineNumber);
+      }
+      if (parsed.isDirective && LAYOUT_DIRECTIVES.includes(parsed.instruction!)) {
+        this.layoutLines.push(parsed.lineNumber);
+      }
+      this.scopes.set(parsed.lineNumber, scope);
+      this.offsets.set(parsed.lineNumber, offset);
+      offset += cost.bytes;
+    }
+  }
+
+  // ".loop" on a line of Routine is "Routine.loop"
+  qualify(name: string, lineNumber: number): string {
+    return name.startsWith('.') ? (this.scopes.get(lineNumber) || '') + name : name;
+  }
+
+  hasLabel(qualifiedName: string): boolean {
+    return this.labels.has(qualifiedName);
+  }
+
+  // Line of a label as written on the given line, if defined in this file
+  labelLine(name: string, lineNumber: number): number | undefined {
+    return this.labels.get(this.qualify(name.trim(), lineNumber));
+  }
+
+  // Byte distance from the start of one line to the start of another, when both are in the same block
+  distance(fromLine: number, toLine: number): number | undefined {
+    const low = Math.min(fromLine, toLine);
+    const high = Math.max(fromLine, toLine);
+    if (this.layoutLines.some(line => line > low && line <= high)) {
+      return undefined;
+    }
+    const from = this.offsets.get(fromLine);
+    const to = this.offsets.get(toLine);
+    return from !== undefined && to !== undefined ? to - from : undefined;
+  }
+}
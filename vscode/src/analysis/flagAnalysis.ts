@@ -0,0 +1,217 @@
+import { AsmDiagnostic } from '../parser/types';
+import { CfgNode, RoutineGraph } from './controlFlow';
+
+export type FlagName = 'Z' | 'N' | 'H' | 'C';
+
+// Where the value of a flag came from at some point of the routine
+export interface FlagSource {
+  kind: 'instruction' | 'call' | 'entry';  // call: set by a call, macro or predef whose effect isn't known
+  line?: number;                           // Setting line, undefined for the routine entry
+  constant?: '0' | '1';                    // The instruction always leaves the flag at this value
+}
+
+// A line that reads flags, with every instruction that may have set them
+export interface FlagUse {
+  line: number;
+  flag: FlagName;
+  sources: FlagSource[];
+}
+
+export interface FlagAnalysis {
+  uses: FlagUse[];
+  warnings: AsmDiagnostic[];
+}
+
+type FlagState = { [flag in FlagName]: Map<string, FlagSource> };
+
+const FLAGS: FlagName[] = ['Z', 'N', 'H', 'C'];
+
+// Instructions consuming the carry (and for DAA, N and H) as data rather than for a branch
+const CARRY_READERS = ['ADC', 'SBC', 'RLA', 'RRA', 'RL', 'RR', 'CCF'];
+
+// Forward dataflow over a routine graph: which instruction last set each flag on every path
+export class FlagAnalyzer {
+  analyzeFlags(graph: RoutineGraph): FlagAnalysis {
+    const analysis: FlagAnalysis = { uses: [], warnings: [] };
+    if (graph.entry === undefined) {
+      return analysis;
+    }
+
+    const entrySource: FlagSource = { kind: 'entry' };
+    const entryState = this.createState();
+    for (const flag of FLAGS) {
+      entryState[flag].set('entry', entrySource);
+    }
+
+    // Sources only ever grow, so the worklist settles even around loops
+    const inStates = new Map<number, FlagState>([[graph.entry, entryState]]);
+    const worklist = [graph.entry];
+    while (worklist.length > 0) {
+      const line = worklist.shift()!;
+      const node = graph.nodes.get(line)!;
+      const outState = this.transfer(node, inStates.get(line)!);
+
+      for (const edge of node.successors) {
+        if (edge.target === undefined) {
+          continue;
+        }
+        const existing = inStates.get(edge.target);
+        if (!existing) {
+          inStates.set(edge.target, this.copyState(outState));
+          worklist.push(edge.target);
+        } else if (this.merge(existing, outState) && !worklist.includes(edge.target)) {
+          worklist.push(edge.target);
+        }
+      }
+    }
+
+    const lines = Array.from(inStates.keys()).sort((a, b) => a - b);
+    for (const line of lines) {
+      const node = graph.nodes.get(line)!;
+      for (const flag of this.readFlags(node)) {
+        const sources = Array.from(inStates.get(line)![flag].values());
+        analysis.uses.push({ line, flag, sources });
+        const warning = this.checkUse(graph, node, flag, sources);
+        if (warning) {
+          analysis.warnings.push(warning);
+        }
+      }
+    }
+
+    return analysis;
+  }
+
+  // One-line summary of a source, e.g. "line 12 (dec b)"
+  describeSource(graph: RoutineGraph, source: FlagSource): string {
+    if (source.kind === 'entry') {
+      return `the caller (not set in ${graph.name} on this path)`;
+    }
+    const node = graph.nodes.get(source.line!);
+    const text = node ? ` (${this.instructionText(node)})` : '';
+    return `line ${source.line! + 1}${text}${source.constant ? `, always ${source.constant}` : ''}`;
+  }
+
+  // Flags read by the instruction on this node
+  readFlags(node: CfgNode): FlagName[] {
+    if (node.parsed.isMacroCall || node.parsed.isPredefCall) {
+      return [];
+    }
+    const mnemonic = node.parsed.instruction?.toUpperCase() || '';
+    const operands = node.parsed.operands;
+
+    if (['JR', 'JP', 'CALL', 'RET'].includes(mnemonic) && operands.length > 0) {
+      const condition = operands[0].trim().toUpperCase();
+      if (condition === 'Z' || condition === 'NZ') {
+        return ['Z'];
+      }
+      // "jp c, X" is conditional, "ret c" too; a lone "c" operand elsewhere would be a register
+      if ((condition === 'C' || condition === 'NC') && (mnemonic === 'RET' || operands.length > 1)) {
+        return ['C'];
+      }
+      return [];
+    }
+    if (mnemonic === 'DAA') {
+      return ['N', 'H', 'C'];
+    }
+    if (CARRY_READERS.includes(mnemonic)) {
+      return ['C'];
+    }
+    return [];
+  }
+
+  private transfer(node: CfgNode, inState: FlagState): FlagState {
+    const outState = this.copyState(inState);
+    const mnemonic = node.parsed.instruction?.toUpperCase() || '';
+    const line = node.line;
+
+    // The callee (or macro body) may set any flag; a conditional call may also not happen
+    const isCall = node.parsed.isMacroCall || node.parsed.isPredefCall || mnemonic === 'CALL' || mnemonic === 'RST';
+    if (isCall) {
+      const conditional = mnemonic === 'CALL' && node.parsed.operands.length > 1;
+      for (const flag of FLAGS) {
+        if (!conditional) {
+          outState[flag].clear();
+        }
+        outState[flag].set(`call:${line}`, { kind: 'call', line });
+      }
+      return outState;
+    }
+
+    const opcode = node.cost.opcode;
+    if (!opcode) {
+      return outState;
+    }
+    for (const flag of FLAGS) {
+      const effect = opcode.flags[flag];
+      if (effect === '-') {
+        continue;
+      }
+      outState[flag].clear();
+      outState[flag].set(`${line}`, {
+        kind: 'instruction',
+        line,
+        constant: effect === '0' || effect === '1' ? effect : undefined
+      });
+    }
+    return outState;
+  }
+
+  private checkUse(graph: RoutineGraph, node: CfgNode, flag: FlagName, sources: FlagSource[]): AsmDiagnostic | undefined {
+    const mnemonic = node.parsed.instruction!.toUpperCase();
+    const text = this.instructionText(node);
+
+    if (sources.some(source => source.kind === 'entry')) {
+      const message = sources.length === 1
+        ? `'${text}' reads ${flag}, which nothing in this routine sets before it`
+        : `'${text}' reads ${flag}, which isn't set on every path to it (some come straight from the routine entry)`;
+      return this.createWarning(node, 'flag-unset', message);
+    }
+
+    // A branch on a flag that every path forced to the same 0 or 1 always goes the same way; when
+    // some path leaves it unknown, the branch still decides something
+    const isBranch = ['JR', 'JP', 'CALL', 'RET'].includes(mnemonic);
+    const constant = sources[0]?.constant;
+    if (isBranch && constant !== undefined && sources.every(source => source.constant === constant)) {
+      const setters = sources.map(source => `'${this.instructionText(graph.nodes.get(source.line!)!)}' on line ${source.line! + 1}`);
+      return this.createWarning(node, 'flag-clobbered',
+        `'${text}' tests ${flag}, but ${setters.join(' and ')} always ${setters.length === 1 ? 'leaves' : 'leave'} ${flag} = ${constant}; the flag was probably clobbered`);
+    }
+
+    return undefined;
+  }
+
+  private createWarning(node: CfgNode, code: string, message: string): AsmDiagnostic {
+    const raw = node.parsed.raw;
+    const start = raw.length - raw.trimStart().length;
+    const label = raw.slice(start).match(/^[\w.]+:+\s*/);
+    const column = start + (label ? label[0].length : 0);
+    return { lineNumber: node.line, column, length: this.instructionText(node).length, severity: 'warning', code, message };
+  }
+
+  // Instruction as written, without label or comment
+  private instructionText(node: CfgNode): string {
+    return node.parsed.raw.replace(/;.*$/, '').trim().replace(/^[\w.]+:+\s*/, '');
+  }
+
+  private createState(): FlagState {
+    return { Z: new Map(), N: new Map(), H: new Map(), C: new Map() };
+  }
+
+  private copyState(state: FlagState): FlagState {
+    return { Z: new Map(state.Z), N: new Map(state.N), H: new Map(state.H), C: new Map(state.C) };
+  }
+
+  // Add the sources of `incoming`; true when anything was new
+  private merge(target: FlagState, incoming: FlagState): boolean {
+    let changed = false;
+    for (const flag of FLAGS) {
+      for (const [key, source] of incoming[flag]) {
+        if (!target[flag].has(key)) {
+          target[flag].set(key, source);
+          changed = true;
+        }
+      }
+    }
+    return changed;
+  }
+}
@@ -0,0 +1,312 @@
+import { RoutineGraph, CfgNode, CfgEdge } from './controlFlow';
+import { ExpressionEvaluator } from '../parser/expressionEvaluator';
+
+export interface LoopInfo {
+  headerLine: number;       // Target of the back edge
+  branchLine: number;       // Line whose jump closes the loop
+  body: Set<number>;
+  iterations?: number;      // Undefined when it could not be inferred
+  source: 'counter' | 'annotation' | 'unknown';
+  counter?: string;         // e.g. "b" or "bc"
+  iterationMinCycles: number;  // One pass through the body including the taken back edge
+  iterationMaxCycles: number;
+  totalMinCycles: number;      // Entering the header until the loop is left at the branch
+  totalMaxCycles: number;
+  extraMinCycles: number;      // Cycles on top of a single pass, added to the loop's exit edges
+  extraMaxCycles: number;
+}
+
+// Detects loops from the CFG's back edges and infers how many times they run
+export class LoopAnalyzer {
+  private static readonly PAIRS: { [pair: string]: [string, string] } = {
+    bc: ['b', 'c'],
+    de: ['d', 'e'],
+    hl: ['h', 'l']
+  };
+  private static readonly REGISTERS_8 = ['a', 'b', 'c', 'd', 'e', 'h', 'l'];
+
+  constructor(private evaluator: ExpressionEvaluator) {}
+
+  // Find loops (innermost first) and fold their repeat cost into the graph's exit edges.
+  // Back edges must already be marked.
+  analyzeLoops(graph: RoutineGraph): LoopInfo[] {
+    const predecessors = this.buildPredecessors(graph);
+    const candidates: { source: CfgNode; edge: CfgEdge; body: Set<number> }[] = [];
+
+    for (const node of graph.nodes.values()) {
+      for (const edge of node.successors) {
+        if (edge.isBackEdge && edge.target !== undefined) {
+          candidates.push({ source: node, edge, body: this.naturalLoop(edge.target, node.line, predecessors) });
+        }
+      }
+    }
+
+    // Inner loops first, so outer iterations include the inner repeat cost
+    candidates.sort((a, b) => a.body.size - b.body.size);
+
+    return candidates.map(({ source, edge, body }) => {
+      const loop = this.measureLoop(graph, source, edge, body);
+      this.applyLoop(graph, source, loop);
+      return loop;
+    });
+  }
+
+  private measureLoop(graph: RoutineGraph, source: CfgNode, backEdge: CfgEdge, body: Set<number>): LoopInfo {
+    const header = backEdge.target!;
+    const [bodyMin, bodyMax] = this.bodyPathCycles(graph, header, source.line, body);
+    const exitEdge = source.successors.find(edge => !edge.isBackEdge);
+
+    const loop: LoopInfo = {
+      headerLine: header,
+      branchLine: source.line,
+      body,
+      source: 'unknown',
+      iterationMinCycles: bodyMin + backEdge.minCycles,
+      iterationMaxCycles: bodyMax + backEdge.maxCycles,
+      totalMinCycles: bodyMin + (exitEdge?.minCycles ?? 0),
+      totalMaxCycles: bodyMax + (exitEdge?.maxCycles ?? 0),
+      extraMinCycles: 0,
+      extraMaxCycles: 0
+    };
+
+    const annotated = this.annotatedIterations(graph.nodes.get(header)!) ?? this.annotatedIterations(source);
+    if (annotated !== undefined) {
+      loop.iterations = annotated;
+      loop.source = 'annotation';
+    } else {
+      const inferred = this.inferCounter(graph, header, source, body);
+      if (inferred) {
+        loop.iterations = inferred.iterations;
+        loop.counter = inferred.counter;
+        loop.source = 'counter';
+      }
+    }
+
+    if (loop.iterations !== undefined && loop.iterations > 1) {
+      loop.extraMinCycles = (loop.iterations - 1) * loop.iterationMinCycles;
+      loop.extraMaxCycles = (loop.iterations - 1) * loop.iterationMaxCycles;
+      loop.totalMinCycles += loop.extraMinCycles;
+      loop.totalMaxCycles += loop.extraMaxCycles;
+    }
+
+    return loop;
+  }
+
+  // Add the repeated iterations to the edges that leave the loop at its closing branch
+  private applyLoop(graph: RoutineGraph, source: CfgNode, loop: LoopInfo): void {
+    if (loop.extraMinCycles === 0 && loop.extraMaxCycles === 0) {
+      return;
+    }
+
+    let exitEdges = source.successors.filter(edge => !edge.isBackEdge && (edge.target === undefined || !loop.body.has(edge.target)));
+    if (exitEdges.length === 0) {
+      // Loop closed by an unconditional jump: it is left from somewhere inside the body
+      exitEdges = [];
+      for (const line of loop.body) {
+        for (const edge of graph.nodes.get(line)!.successors) {
+          if (!edge.isBackEdge && (edge.target === undefined || !loop.body.has(edge.target))) {
+            exitEdges.push(edge);
+          }
+        }
+      }
+    }
+
+    for (const edge of exitEdges) {
+      edge.minCycles += loop.extraMinCycles;
+      edge.maxCycles += loop.extraMaxCycles;
+    }
+  }
+
+  // "; @loop N" on the loop header or the closing branch overrides inference
+  private annotatedIterations(node: CfgNode): number | undefined {
+    for (const annotation of node.annotations) {
+      const match = annotation.match(/@loop\s+([^;]+?)\s*$/i);
+      if (match) {
+        const value = this.evaluator.evaluate(match[1]);
+        if (value !== undefined && value > 0) {
+          return value;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  // Recognise "dec r / jr nz" and "dec rr / ld a, r1 / or r2 / jr nz" loops and find the counter's initial value
+  private inferCounter(graph: RoutineGraph, header: number, source: CfgNode, body: Set<number>): { counter: string; iterations: number } | undefined {
+    const operands = source.parsed.operands;
+    if (operands.length !== 2 || operands[0].toUpperCase() !== 'NZ') {
+      return undefined;
+    }
+
+    const ordered = Array.from(graph.nodes.keys()).sort((a, b) => a - b);
+    const sourceIndex = ordered.indexOf(source.line);
+
+    // Last instruction before the branch that sets Z
+    let zSetter: CfgNode | undefined;
+    let zSetterIndex = -1;
+    for (let i = sourceIndex - 1; i >= 0 && body.has(ordered[i]); i--) {
+      const node = graph.nodes.get(ordered[i])!;
+      if (!node.cost.opcode) {
+        return undefined;  // Macro or unknown instruction: can't tell what it does to Z
+      }
+      if (node.cost.opcode.flags.Z !== '-') {
+        zSetter = node;
+        zSetterIndex = i;
+        break;
+      }
+    }
+    if (!zSetter) {
+      return undefined;
+    }
+
+    const mnemonic = zSetter.parsed.instruction?.toUpperCase();
+    const operand = zSetter.parsed.operands[0]?.toLowerCase();
+    let counter: string | undefined;
+
+    if (mnemonic === 'DEC' && zSetter.parsed.operands.length === 1 && LoopAnalyzer.REGISTERS_8.includes(operand)) {
+      counter = operand;
+    } else if (mnemonic === 'OR' && zSetterIndex > 0) {
+      // 16-bit counter: ld a, b / or c
+      const load = graph.nodes.get(ordered[zSetterIndex - 1])!;
+      const loadOperands = load.parsed.operands.map(op => op.toLowerCase());
+      if (load.parsed.instruction?.toUpperCase() === 'LD' && loadOperands[0] === 'a') {
+        for (const [pair, halves] of Object.entries(LoopAnalyzer.PAIRS)) {
+          const matchesPair = (halves[0] === loadOperands[1] && halves[1] === operand) ||
+                              (halves[1] === loadOperands[1] && halves[0] === operand);
+          const decrements = Array.from(body).some(line => {
+            const node = graph.nodes.get(line)!;
+            return node.parsed.instruction?.toUpperCase() === 'DEC' && node.parsed.operands[0]?.toLowerCase() === pair;
+          });
+          if (matchesPair && decrements) {
+            counter = pair;
+          }
+        }
+      }
+    }
+
+    if (!counter) {
+      return undefined;
+    }
+
+    const initial = this.findInitialValue(graph, ordered, ordered.indexOf(header), counter, body);
+    if (initial === undefined) {
+      return undefined;
+    }
+
+    const range = counter.length === 2 ? 0x10000 : 0x100;
+    const masked = initial & (range - 1);
+    return { counter, iterations: masked === 0 ? range : masked };
+  }
+
+  // Walk back from the loop header to the last write of the counter register
+  private findInitialValue(graph: RoutineGraph, ordered: number[], headerIndex: number, counter: string, body: Set<number>): number | undefined {
+    for (let i = headerIndex - 1; i >= 0; i--) {
+      if (body.has(ordered[i])) {
+        continue;
+      }
+      const node = graph.nodes.get(ordered[i])!;
+      const mnemonic = node.parsed.instruction?.toUpperCase() || '';
+      const operands = node.parsed.operands.map(op => op.trim());
+      const target = operands[0]?.toLowerCase();
+
+      if (node.parsed.isMacroCall) {
+        continue;
+      }
+
+      const pair = Object.entries(LoopAnalyzer.PAIRS).find(([, halves]) => halves.includes(counter));
+      const writesCounter = target === counter || (pair !== undefined && target === pair[0]);
+
+      // xor a / sub a clear the accumulator
+      if (counter === 'a' && (mnemonic === 'XOR' || mnemonic === 'SUB') && target === 'a' && operands.length === 1) {
+        return 0;
+      }
+      if (counter === 'a' && ['ADD', 'ADC', 'SUB', 'SBC', 'AND', 'OR', 'XOR'].includes(mnemonic)) {
+        return undefined;
+      }
+      if (!writesCounter || ['CP', 'BIT', 'PUSH'].includes(mnemonic) || (mnemonic === 'LD' && operands[0].startsWith('['))) {
+        continue;
+      }
+
+      if (mnemonic !== 'LD' || operands.length !== 2) {
+        return undefined;
+      }
+
+      const value = this.evaluator.evaluate(operands[1]);
+      if (value === undefined) {
+        return undefined;
+      }
+      if (target === counter) {
+        return value;
+      }
+      // Counter is one half of a pair loaded at once, e.g. "ld bc, $0410" for b
+      return pair![1][0] === counter ? (value >> 8) & 0xFF : value & 0xFF;
+    }
+
+    return undefined;
+  }
+
+  // Shortest/longest path from the header to the branch within the loop body
+  private bodyPathCycles(graph: RoutineGraph, header: number, branch: number, body: Set<number>): [number, number] {
+    const minCost = new Map<number, number>([[header, 0]]);
+    const maxCost = new Map<number, number>([[header, 0]]);
+    const ordered = Array.from(body).sort((a, b) => a - b);
+
+    // Forward edges inside a loop body go down the file, except for inner back edges we skip
+    const headerIndex = ordered.indexOf(header);
+    const order = [...ordered.slice(headerIndex), ...ordered.slice(0, headerIndex)];
+
+    for (const line of order) {
+      const reachedMin = minCost.get(line);
+      const reachedMax = maxCost.get(line);
+      if (reachedMin === undefined || reachedMax === undefined || line === branch) {
+        continue;
+      }
+      for (const edge of graph.nodes.get(line)!.successors) {
+        if (edge.isBackEdge || edge.target === undefined || !body.has(edge.target)) {
+          continue;
+        }
+        const edgeMin = reachedMin + edge.minCycles;
+        const edgeMax = reachedMax + edge.maxCycles;
+        if (minCost.get(edge.target) === undefined || edgeMin < minCost.get(edge.target)!) {
+          minCost.set(edge.target, edgeMin);
+        }
+        if (maxCost.get(edge.target) === undefined || edgeMax > maxCost.get(edge.target)!) {
+          maxCost.set(edge.target, edgeMax);
+        }
+      }
+    }
+
+    return [minCost.get(branch) ?? 0, maxCost.get(branch) ?? 0];
+  }
+
+  private naturalLoop(header: number, source: number, predecessors: Map<number, number[]>): Set<number> {
+    const body = new Set<number>([header, source]);
+    const stack = source === header ? [] : [source];
+
+    while (stack.length > 0) {
+      const line = stack.pop()!;
+      for (const pred of predecessors.get(line) || []) {
+        if (!body.has(pred)) {
+          body.add(pred);
+          stack.push(pred);
+        }
+      }
+    }
+
+    return body;
+  }
+
+  private buildPredecessors(graph: RoutineGraph): Map<number, number[]> {
+    const predecessors = new Map<number, number[]>();
+    for (const node of graph.nodes.values()) {
+      for (const edge of node.successors) {
+        if (edge.target !== undefined) {
+          const list = predecessors.get(edge.target) || [];
+          list.push(node.line);
+          predecessors.set(edge.target, list);
+        }
+      }
+    }
+    return predecessors;
+  }
+}
@@ -0,0 +1,222 @@
+import { ParsedLine, PeepholeHint, OpcodeInfo } from '../parser/types';
+import { RGBDSParser } from '../parser/rgbdsParser';
+import { ExpressionEvaluator } from '../parser/expressionEvaluator';
+import { DocumentCosts } from '../metrics/metricsEngine';
+import { OpcodeDatabase } from '../opcodes/opcodeData';
+import { FileOffsets } from './fileOffsets';
+
+interface RuleMatch {
+  mnemonic: string;         // Upper case, like the opcode table
+  operands: string[];       // As written in the source, or upper-case registers
+  removedLines?: number[];
+  note?: string;
+}
+
+interface PeepholeRule {
+  id: string;
+  match(lines: ParsedLine[], index: number, context: RuleContext): RuleMatch | undefined;
+}
+
+interface RuleContext {
+  offsets: FileOffsets;
+  evaluator: ExpressionEvaluator;
+  next(index: number): number | undefined;  // Index of the next line with an instruction
+}
+
+const FLAG_NAMES: (keyof OpcodeInfo['flags'])[] = ['Z', 'N', 'H', 'C'];
+
+function isA(operand: string | undefined): boolean {
+  return operand !== undefined && operand.trim().toUpperCase() === 'A';
+}
+
+function isMemory(operand: string): boolean {
+  return /^[[(]/.test(operand.trim());
+}
+
+// Known SM83 idioms, each trading an instruction sequence for a shorter or faster one
+const RULES: PeepholeRule[] = [
+  {
+    id: 'ld-a-zero',
+    match: (lines, index, { evaluator }) => {
+      const { instruction, operands } = lines[index];
+      if (instruction === 'LD' && operands.length === 2 && isA(operands[0]) && !isMemory(operands[1]) &&
+          evaluator.evaluate(operands[1]) === 0) {
+        return { mnemonic: 'XOR', operands: ['A'] };
+      }
+      return undefined;
+    }
+  },
+  {
+    id: 'cp-zero',
+    match: (lines, index, { evaluator }) => {
+      const { instruction, operands } = lines[index];
+      const value = operands.length === 2 && isA(operands[0]) ? operands[1] : operands.length === 1 ? operands[0] : undefined;
+      if (instruction === 'CP' && value !== undefined && !isMemory(value) && !isA(value) && evaluator.evaluate(value) === 0) {
+        return { mnemonic: 'AND', operands: ['A'] };
+      }
+      return undefined;
+    }
+  },
+  {
+    id: 'tail-call',
+    match: (lines, index, { next }) => {
+      const { instruction, operands } = lines[index];
+      if (instruction !== 'CALL' || operands.length !== 1) {
+        return undefined;
+      }
+      const following = next(index);
+      const ret = following !== undefined ? lines[following] : undefined;
+      if (!ret || ret.instruction !== 'RET' || ret.operands.length > 0 || ret.label) {
+        return undefined;
+      }
+      return {
+        mnemonic: 'JP',
+        operands,
+        removedLines: [ret.lineNumber],
+        note: `${operands[0]} returns straight to this routine's caller, using one less stack level`
+      };
+    }
+  },
+  {
+    id: 'jp-to-jr',
+    match: (lines, index, { offsets }) => {
+      const { instruction, operands, lineNumber } = lines[index];
+      if (instruction !== 'JP' || operands.length === 0 || isMemory(operands[operands.length - 1]) || /^hl$/i.test(operands[0].trim())) {
+        return undefined;
+      }
+      const target = offsets.labelLine(operands[operands.length - 1], lineNumber);
+      const distance = target !== undefined ? offsets.distance(lineNumber, target) : undefined;
+      if (distance === undefined) {
+        return undefined;
+      }
+      // jr is a byte shorter, which also brings forward targets one byte closer
+      const displacement = distance > 0 ? distance - 3 : distance - 2;
+      if (displacement < -128 || displacement > 127) {
+        return undefined;
+      }
+      return { mnemonic: 'JR', operands };
+    }
+  },
+  {
+    id: 'ldh',
+    match: (lines, index, { evaluator }) => {
+      const { instruction, operands } = lines[index];
+      if (instruction !== 'LD' || operands.length !== 2) {
+        return undefined;
+      }
+      const memory = isA(operands[1]) ? operands[0] : isA(operands[0]) ? operands[1] : undefined;
+      if (!memory || !isMemory(memory) || /^[[(]\s*(hl[+-id]?|bc|de|c)\s*[\])]$/i.test(memory.trim())) {
+        return undefined;
+      }
+      const address = evaluator.evaluate(memory.trim().slice(1, -1));
+      if (address === undefined || address < 0xFF00 || address > 0xFFFF) {
+        return undefined;
+      }
+      return { mnemonic: 'LDH', operands };
+    }
+  },
+  {
+    id: 'sla-a',
+    match: (lines, index) => {
+      const { instruction, operands } = lines[index];
+      if (instruction === 'SLA' && operands.length === 1 && isA(operands[0])) {
+        return { mnemonic: 'ADD', operands: ['A', 'A'] };
+      }
+      return undefined;
+    }
+  }
+];
+
+// Runs the peephole rules over a file and prices each suggestion with the opcode table
+export class PeepholeOptimizer {
+  constructor(private parser: RGBDSParser, private evaluator: ExpressionEvaluator, private opcodes: OpcodeDatabase) {}
+
+  analyze(lines: ParsedLine[], costs: DocumentCosts): PeepholeHint[] {
+    const hints: PeepholeHint[] = [];
+    const instructionLines = lines.filter(parsed => {
+      const cost = costs.lines.get(parsed.lineNumber);
+      return cost && (parsed.label || (parsed.instruction && !parsed.isDirective));
+    });
+    const context: RuleContext = {
+      offsets: new FileOffsets(lines, costs),
+      evaluator: this.evaluator,
+      next: index => index + 1 < instructionLines.length ? index + 1 : undefined
+    };
+
+    instructionLines.forEach((parsed, index) => {
+      if (!parsed.instruction || !costs.lines.get(parsed.lineNumber)?.opcode || /[{\\]/.test(this.parser.removeComments(parsed.raw))) {
+        return;
+      }
+      for (const rule of RULES) {
+        const match = rule.match(instructionLines, index, context);
+        const hint = match && this.createHint(rule.id, parsed, match, lines, costs);
+        if (hint) {
+          hints.push(hint);
+          break;
+        }
+      }
+    });
+
+    return hints;
+  }
+
+  private createHint(rule: string, parsed: ParsedLine, match: RuleMatch, lines: ParsedLine[], costs: DocumentCosts): PeepholeHint | undefined {
+    const replaced = [parsed, ...(match.removedLines || []).map(line => lines[line])];
+    const before = replaced.map(line => costs.lines.get(line.lineNumber)?.opcode);
+    const after = this.opcodes.lookup(match.mnemonic, match.operands);
+    if (!after || before.some(opcode => !opcode)) {
+      return undefined;
+    }
+
+    const bytesSaved = before.reduce((sum, opcode) => sum + opcode!.bytes, 0) - after.bytes;
+    const cyclesSaved = before.reduce((sum, opcode) => sum + opcode!.cycles[0], 0) - after.cycles[0];
+    if (bytesSaved <= 0 && cyclesSaved <= 0) {
+      return undefined;
+    }
+
+    const code = this.formatInstruction(match, parsed);
+    const original = replaced.map(line => this.instructionText(line)).join(' / ');
+    const notes: string[] = [];
+    const changed = FLAG_NAMES.filter(flag => before[0]!.flags[flag] !== after.flags[flag]);
+    if (changed.length > 0 && replaced.length === 1) {
+      const describe = (opcode: OpcodeInfo) => FLAG_NAMES.map(flag => opcode.flags[flag]).join(' ');
+      notes.push(`Flags ${changed.join(', ')} differ: ${original} [Z N H C = ${describe(before[0]!)}], ${code} [Z N H C = ${describe(after)}]`);
+    }
+    if (match.note) {
+      notes.push(match.note);
+    }
+
+    return {
+      rule,
+      lineNumber: parsed.lineNumber,
+      replacement: this.replaceInstruction(parsed.raw, code),
+      removedLines: match.removedLines || [],
+      title: `${original} → ${code}`,
+      bytesSaved,
+      cyclesSaved,
+      notes
+    };
+  }
+
+  // "ld a, 0" as written, without label or comment
+  private instructionText(parsed: ParsedLine): string {
+    return this.parser.removeComments(parsed.raw).trim().replace(/^[\w.]+:+\s*/, '');
+  }
+
+  // Swap the instruction on a line for another, keeping label, indentation, spacing and comment
+  private replaceInstruction(raw: string, code: string): string {
+    const source = this.parser.removeComments(raw);
+    const prefix = source.match(/^\s*(?:[\w.]+:+\s*)?/)![0];
+    const trailing = source.match(/\s*$/)![0];
+    return prefix + code + trailing + raw.slice(source.length);
+  }
+
+  // Mnemonic and registers in the case the original instruction was written in
+  private formatInstruction(match: RuleMatch, parsed: ParsedLine): string {
+    const written = this.instructionText(parsed).split(/\s/)[0];
+    const lower = written === written.toLowerCase();
+    const operands = match.operands.map(operand => lower && operand === 'A' ? 'a' : operand);
+    const mnemonic = lower ? match.mnemonic.toLowerCase() : match.mnemonic;
+    return operands.length > 0 ? `${mnemonic} ${operands.join(', ')}` : mnemonic;
+  }
+}
@@ -0,0 +1,547 @@
+import { AsmDiagnostic, ParsedLine } from '../parser/types';
+import { RoutineRegistry } from '../parser/rgbdsParser';
+import { CfgNode, RoutineGraph } from './controlFlow';
+import { RoutineIndex } from './routineIndex';
+import { RoutineSummaries } from './routineSummaries';
+
+export type Register = 'a' | 'b' | 'c' | 'd' | 'e' | 'h' | 'l';
+
+// What a routine does to the registers, callees included
+export interface RegisterSummary {
+  name: string;
+  filePath: string;
+  startLine: number;
+  inputs: Set<Register>;     // Read before being written on some path from the entry
+  clobbers: Set<Register>;   // Left changed on some exit
+  preserved: Set<Register>;  // Changed inside but restored by a pop before every exit
+  unknownCalls: string[];    // Callees with no routine in the workspace, not counted
+}
+
+// Register use of a single line
+interface RegisterEffect {
+  reads: Register[];
+  writes: Register[];
+  push?: string;    // Pair saved on the stack
+  pop?: string;     // Pair restored from the stack
+  callee?: string;  // Routine whose effects apply here (call, predef, or tail jump)
+}
+
+interface StackEntry {
+  pair: string;
+  line: number;
+  modified: Register[];  // Halves of the pair that were already changed when it was pushed
+}
+
+// Registers changed since the routine entry, with the pushes still on the stack (undefined once untrackable)
+interface StackState {
+  modified: Set<Register>;
+  stack?: StackEntry[];
+}
+
+interface RoutineRegisters {
+  summary: RegisterSummary;
+  graph: RoutineGraph;
+  effects: Map<number, RegisterEffect>;
+  liveOut: Map<number, Set<Register>>;
+  modifiedBefore: Map<number, Set<Register>>;
+}
+
+const REGISTERS: Register[] = ['a', 'b', 'c', 'd', 'e', 'h', 'l'];
+
+const PAIRS: { [pair: string]: Register[] } = {
+  af: ['a'],
+  bc: ['b', 'c'],
+  de: ['d', 'e'],
+  hl: ['h', 'l']
+};
+
+const ALU = ['ADD', 'ADC', 'SUB', 'SBC', 'AND', 'XOR', 'OR', 'CP'];
+const CB_SHIFTS = ['RLC', 'RRC', 'RL', 'RR', 'SLA', 'SRA', 'SRL', 'SWAP'];
+const ACCUMULATOR_OPS = ['RLCA', 'RRCA', 'RLA', 'RRA', 'CPL', 'DAA'];
+
+// Deeper push nesting is taken as a push inside a loop and no longer tracked
+const MAX_STACK_DEPTH = 16;
+
+// Register inputs, clobbers and push/pop preservation per routine, following calls across the workspace
+export class RegisterAnalyzer {
+  private summaries: RoutineSummaries<RoutineRegisters>;
+
+  constructor(private index: RoutineIndex, private routines: RoutineRegistry) {
+    this.summaries = new RoutineSummaries(index);
+  }
+
+  getSummary(name: string): RegisterSummary | undefined {
+    return this.analyze(name)?.summary;
+  }
+
+  // Documentation mismatches and callers relying on registers their callee clobbers
+  checkFile(filePath: string): AsmDiagnostic[] {
+    const diagnostics: AsmDiagnostic[] = [];
+    for (const graph of this.index.getFile(filePath)) {
+      const routine = this.analyze(graph.name);
+      if (!routine || routine.graph !== graph) {
+        continue;
+      }
+      diagnostics.push(...this.checkDocumentation(filePath, routine));
+      diagnostics.push(...this.checkCalls(routine));
+    }
+    return diagnostics;
+  }
+
+  // "a, de, hl": pairs whose halves are both present are shown as the pair
+  formatRegisters(registers: Iterable<Register>): string {
+    const set = new Set(registers);
+    const parts: string[] = [];
+    if (set.has('a')) {
+      parts.push('a');
+    }
+    for (const pair of ['bc', 'de', 'hl']) {
+      const [high, low] = PAIRS[pair];
+      if (set.has(high) && set.has(low)) {
+        parts.push(pair);
+      } else {
+        parts.push(...[high, low].filter(register => set.has(register)));
+      }
+    }
+    return parts.length > 0 ? parts.join(', ') : 'none';
+  }
+
+  // Summaries are computed on demand; a recursive call sees its callee as unknown
+  private analyze(name: string): RoutineRegisters | undefined {
+    return this.summaries.get(name, entry => this.analyzeGraph(entry.filePath, entry.graph));
+  }
+
+  private analyzeGraph(filePath: string, graph: RoutineGraph): RoutineRegisters {
+    const effects = new Map<number, RegisterEffect>();
+    for (const node of graph.nodes.values()) {
+      effects.set(node.line, this.nodeEffect(node));
+    }
+
+    const unknownCalls = new Set<string>();
+    const callee = (effect: RegisterEffect) => {
+      if (!effect.callee) {
+        return undefined;
+      }
+      const summary = this.getSummary(effect.callee);
+      if (!summary && !this.summaries.isInProgress(effect.callee)) {
+        unknownCalls.add(effect.callee);
+      }
+      return summary;
+    };
+
+    const { inStates, clobbers, written, movedPushes } = this.simulateStack(graph, effects, callee);
+    const liveIn = new Map<number, Set<Register>>();
+    const liveOut = this.computeLiveness(graph, effects, movedPushes, callee, liveIn);
+
+    const inputs = graph.entry !== undefined ? liveIn.get(graph.entry)! : new Set<Register>();
+    const modifiedBefore = new Map<number, Set<Register>>();
+    for (const [line, state] of inStates) {
+      modifiedBefore.set(line, state.modified);
+    }
+
+    return {
+      summary: {
+        name: graph.name,
+        filePath,
+        startLine: graph.startLine,
+        inputs,
+        clobbers,
+        preserved: new Set(REGISTERS.filter(register => written.has(register) && !clobbers.has(register))),
+        unknownCalls: Array.from(unknownCalls)
+      },
+      graph,
+      effects,
+      liveOut,
+      modifiedBefore
+    };
+  }
+
+  // Forward pass tracking which registers differ from their entry value, with pops restoring pushed pairs
+  private simulateStack(graph: RoutineGraph, effects: Map<number, RegisterEffect>, callee: (effect: RegisterEffect) => RegisterSummary | undefined) {
+    const inStates = new Map<number, StackState>();
+    const clobbers = new Set<Register>();
+    const written = new Set<Register>();
+    const movedPushes = new Set<number>();
+    let hasExit = false;
+
+    if (graph.entry !== undefined) {
+      inStates.set(graph.entry, { modified: new Set(), stack: [] });
+    }
+    const worklist = graph.entry !== undefined ? [graph.entry] : [];
+    while (worklist.length > 0) {
+      const line = worklist.shift()!;
+      const node = graph.nodes.get(line)!;
+      const effect = effects.get(line)!;
+      const state = this.copyState(inStates.get(line)!);
+
+      for (const register of effect.writes) {
+        state.modified.add(register);
+        written.add(register);
+      }
+      const summary = node.successors.some(edge => edge.exitKind === 'tailjump') ? undefined : callee(effect);
+      for (const register of summary?.clobbers || []) {
+        state.modified.add(register);
+        written.add(register);
+      }
+      if (effect.push && state.stack) {
+        const modified = PAIRS[effect.push].filter(register => state.modified.has(register));
+        state.stack.push({ pair: effect.push, line, modified });
+        if (state.stack.length > MAX_STACK_DEPTH) {
+          state.stack = undefined;
+        }
+      }
+      if (effect.pop) {
+        const saved = state.stack?.pop();
+        for (const register of PAIRS[effect.pop]) {
+          written.add(register);
+          if (saved && saved.pair === effect.pop && !saved.modified.includes(register)) {
+            state.modified.delete(register);
+          } else {
+            state.modified.add(register);
+          }
+        }
+        if (saved && saved.pair !== effect.pop) {
+          movedPushes.add(saved.line);
+        }
+      }
+
+      for (const edge of node.successors) {
+        if (edge.target === undefined) {
+          hasExit = true;
+          state.modified.forEach(register => clobbers.add(register));
+          if (edge.exitKind === 'tailjump') {
+            for (const register of callee(effect)?.clobbers || []) {
+              clobbers.add(register);
+              written.add(register);
+            }
+          }
+          continue;
+        }
+        const existing = inStates.get(edge.target);
+        if (!existing) {
+          inStates.set(edge.target, this.copyState(state));
+          worklist.push(edge.target);
+        } else if (this.mergeState(existing, state) && !worklist.includes(edge.target)) {
+          worklist.push(edge.target);
+        }
+      }
+    }
+
+    // A routine that never returns leaves everything it touched changed
+    if (!hasExit) {
+      written.forEach(register => clobbers.add(register));
+    }
+    return { inStates, clobbers, written, movedPushes };
+  }
+
+  // Backward liveness; returns the registers live after each node and fills in those live before it
+  private computeLiveness(
+    graph: RoutineGraph,
+    effects: Map<number, RegisterEffect>,
+    movedPushes: Set<number>,
+    callee: (effect: RegisterEffect) => RegisterSummary | undefined,
+    liveIn: Map<number, Set<Register>>
+  ): Map<number, Set<Register>> {
+    const liveOut = new Map<number, Set<Register>>();
+    const lines = Array.from(graph.nodes.keys()).sort((a, b) => b - a);
+    for (const line of lines) {
+      liveIn.set(line, new Set());
+      liveOut.set(line, new Set());
+    }
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const line of lines) {
+        const node = graph.nodes.get(line)!;
+        const effect = effects.get(line)!;
+        const summary = callee(effect);
+
+        const out = new Set<Register>();
+        for (const edge of node.successors) {
+          if (edge.target !== undefined) {
+            liveIn.get(edge.target)!.forEach(register => out.add(register));
+          } else if (edge.exitKind === 'tailjump') {
+            summary?.inputs.forEach(register => out.add(register));
+          }
+        }
+
+        // Pushing a pair only to restore it later isn't a real read
+        const uses = [...effect.reads];
+        if (effect.push && movedPushes.has(line)) {
+          uses.push(...PAIRS[effect.push]);
+        }
+        const isTailJump = node.successors.some(edge => edge.exitKind === 'tailjump');
+        if (summary && !isTailJump) {
+          uses.push(...summary.inputs);
+        }
+        const defs = effect.pop ? [...effect.writes, ...PAIRS[effect.pop]] : effect.writes;
+
+        const live = new Set(out);
+        defs.forEach(register => live.delete(register));
+        uses.forEach(register => live.add(register));
+
+        if (live.size !== liveIn.get(line)!.size || out.size !== liveOut.get(line)!.size) {
+          changed = true;
+        }
+        liveIn.set(line, live);
+        liveOut.set(line, out);
+      }
+    }
+    return liveOut;
+  }
+
+  private checkDocumentation(filePath: string, routine: RoutineRegisters): AsmDiagnostic[] {
+    const documentation = this.routines.get(routine.graph.name);
+    if (!documentation || documentation.filePath !== filePath || documentation.arguments.length === 0) {
+      return [];
+    }
+
+    const { summary } = routine;
+    const documented = new Set<Register>();
+    const diagnostics: AsmDiagnostic[] = [];
+    for (const argument of documentation.arguments) {
+      const registers = PAIRS[argument.register] || (REGISTERS.includes(argument.register as Register) ? [argument.register as Register] : []);
+      registers.forEach(register => documented.add(register));
+      if (registers.length > 0 && !registers.some(register => summary.inputs.has(register))) {
+        diagnostics.push(this.createLabelDiagnostic(routine.graph, 'info', 'unused-input',
+          `${argument.register} is documented as an input of ${summary.name}, but it is never read before being overwritten`));
+      }
+    }
+
+    const undocumented = REGISTERS.filter(register => summary.inputs.has(register) && !documented.has(register));
+    if (undocumented.length > 0) {
+      diagnostics.push(this.createLabelDiagnostic(routine.graph, 'info', 'undocumented-input',
+        `${summary.name} reads ${this.formatRegisters(undocumented)} before writing ${undocumented.length === 1 ? 'it' : 'them'}, but the documentation doesn't list ${undocumented.length === 1 ? 'it' : 'them'} as input`));
+    }
+    return diagnostics;
+  }
+
+  // A register set before a call and read after it only survives if the callee leaves it alone
+  private checkCalls(routine: RoutineRegisters): AsmDiagnostic[] {
+    const diagnostics: AsmDiagnostic[] = [];
+    for (const [line, effect] of routine.effects) {
+      const node = routine.graph.nodes.get(line)!;
+      if (!effect.callee || node.successors.some(edge => edge.exitKind === 'tailjump')) {
+        continue;
+      }
+      const summary = this.getSummary(effect.callee);
+      const before = routine.modifiedBefore.get(line);
+      if (!summary || !before) {
+        continue;
+      }
+      const after = routine.liveOut.get(line)!;
+      const relied = REGISTERS.filter(register =>
+        summary.clobbers.has(register) && !summary.inputs.has(register) && before.has(register) && after.has(register));
+      if (relied.length === 0) {
+        continue;
+      }
+
+      const raw = node.parsed.raw;
+      const column = raw.search(new RegExp(`\\b${effect.callee.replace(/[.$]/g, '\\$&')}\\b`));
+      diagnostics.push({
+        lineNumber: line,
+        column: Math.max(column, 0),
+        length: column >= 0 ? effect.callee.length : raw.length,
+        severity: 'warning',
+        code: 'clobbered-register',
+        message: `${this.formatRegisters(relied)} ${relied.length === 1 ? 'is' : 'are'} set before this call and read after it, but ${summary.name} clobbers ${relied.length === 1 ? 'it' : 'them'}`
+      });
+    }
+    return diagnostics;
+  }
+
+  // Global labels start in column 0
+  private createLabelDiagnostic(graph: RoutineGraph, severity: AsmDiagnostic['severity'], code: string, message: string): AsmDiagnostic {
+    return { lineNumber: graph.startLine, column: 0, length: graph.name.length, severity, code, message };
+  }
+
+  private nodeEffect(node: CfgNode): RegisterEffect {
+    const { parsed } = node;
+    if (parsed.isPredefCall) {
+      return { reads: [], writes: [], callee: parsed.operands[0]?.trim() };
+    }
+    if (parsed.isMacroCall) {
+      return this.sequenceEffect(node.cost.expansion || []);
+    }
+    const effect = this.instructionEffect(parsed);
+    const mnemonic = parsed.instruction?.toUpperCase();
+    const target = parsed.operands[parsed.operands.length - 1]?.trim();
+    const leaves = node.successors.some(edge => edge.exitKind === 'tailjump');
+    if (target && !target.startsWith('.') && (mnemonic === 'CALL' || (leaves && (mnemonic === 'JP' || mnemonic === 'JR')))) {
+      effect.callee = target;
+    }
+    return effect;
+  }
+
+  // A macro body taken as straight-line code: reads are those before any write in the body
+  private sequenceEffect(lines: ParsedLine[]): RegisterEffect {
+    const reads = new Set<Register>();
+    const writes = new Set<Register>();
+    for (const line of lines) {
+      const effect = this.instructionEffect(line);
+      effect.reads.filter(register => !writes.has(register)).forEach(register => reads.add(register));
+      effect.writes.forEach(register => writes.add(register));
+      if (effect.pop) {
+        PAIRS[effect.pop].forEach(register => writes.add(register));
+      }
+    }
+    return { reads: Array.from(reads), writes: Array.from(writes) };
+  }
+
+  private instructionEffect(parsed: ParsedLine): RegisterEffect {
+    const effect: RegisterEffect = { reads: [], writes: [] };
+    const mnemonic = parsed.instruction?.toUpperCase() || '';
+    if (!parsed.instruction || parsed.isDirective) {
+      return effect;
+    }
+    const operands = parsed.operands.map(operand => operand.trim().toLowerCase());
+    const [first, second] = operands;
+
+    // Register pointers in memory operands; post-increment forms also change hl
+    const address = (operand: string | undefined, postIncrement = false) => {
+      const inner = operand?.match(/^[[(](.*)[\])]$/)?.[1].replace(/\s+/g, '');
+      if (!inner) {
+        return;
+      }
+      if (/^hl(?:[+\-]|i|d)?$/.test(inner)) {
+        effect.reads.push('h', 'l');
+        if (postIncrement || inner !== 'hl') {
+          effect.writes.push('h', 'l');
+        }
+      } else if (inner === 'bc' || inner === 'de') {
+        effect.reads.push(...PAIRS[inner]);
+      } else if (/(^|\+)c$/.test(inner)) {
+        effect.reads.push('c');
+      }
+    };
+
+    switch (mnemonic) {
+      case 'LD':
+      case 'LDH':
+      case 'LDI':
+      case 'LDD':
+        if (operands.length < 2) {
+          break;
+        }
+        address(first, mnemonic === 'LDI' || mnemonic === 'LDD');
+        address(second, mnemonic === 'LDI' || mnemonic === 'LDD');
+        effect.reads.push(...this.registersOf(second));
+        effect.writes.push(...this.registersOf(first));
+        break;
+      case 'PUSH':
+        if (PAIRS[first]) {
+          effect.push = first;
+        }
+        break;
+      case 'POP':
+        if (PAIRS[first]) {
+          effect.pop = first;
+        }
+        break;
+      case 'INC':
+      case 'DEC':
+        address(first);
+        effect.reads.push(...this.registersOf(first));
+        effect.writes.push(...this.registersOf(first));
+        break;
+      case 'BIT':
+        address(second);
+        effect.reads.push(...this.registersOf(second));
+        break;
+      case 'SET':
+      case 'RES':
+        address(second);
+        effect.reads.push(...this.registersOf(second));
+        effect.writes.push(...this.registersOf(second));
+        break;
+      case 'JP':
+        if (first === 'hl' || first === '[hl]') {
+          effect.reads.push('h', 'l');
+        }
+        break;
+      default:
+        if (ALU.includes(mnemonic)) {
+          this.aluEffect(mnemonic, operands, effect, address);
+        } else if (CB_SHIFTS.includes(mnemonic)) {
+          address(first);
+          effect.reads.push(...this.registersOf(first));
+          effect.writes.push(...this.registersOf(first));
+        } else if (ACCUMULATOR_OPS.includes(mnemonic)) {
+          effect.reads.push('a');
+          effect.writes.push('a');
+        }
+    }
+    return effect;
+  }
+
+  private aluEffect(mnemonic: string, operands: string[], effect: RegisterEffect, address: (operand: string | undefined) => void): void {
+    // 16-bit adds
+    if (mnemonic === 'ADD' && operands[0] === 'hl') {
+      effect.reads.push('h', 'l', ...this.registersOf(operands[1]));
+      effect.writes.push('h', 'l');
+      return;
+    }
+    if (mnemonic === 'ADD' && operands[0] === 'sp') {
+      return;
+    }
+
+    const source = operands.length > 1 ? operands[1] : operands[0];
+    address(source);
+    // "xor a", "sub a" and "sbc a" give a result that doesn't depend on a
+    const clears = source === 'a' && ['XOR', 'SUB', 'SBC'].includes(mnemonic);
+    if (!clears) {
+      effect.reads.push('a', ...this.registersOf(source));
+    }
+    if (mnemonic !== 'CP') {
+      effect.writes.push('a');
+    }
+  }
+
+  // Registers named directly by an operand, e.g. "a" or "hl"
+  private registersOf(operand: string | undefined): Register[] {
+    if (!operand) {
+      return [];
+    }
+    if (PAIRS[operand]) {
+      return operand === 'af' ? [] : PAIRS[operand];
+    }
+    return REGISTERS.includes(operand as Register) ? [operand as Register] : [];
+  }
+
+  private copyState(state: StackState): StackState {
+    return {
+      modified: new Set(state.modified),
+      stack: state.stack?.map(entry => ({ ...entry, modified: [...entry.modified] }))
+    };
+  }
+
+  // Join `incoming` into `target`; true when anything changed
+  private mergeState(target: StackState, incoming: StackState): boolean {
+    let changed = false;
+    for (const register of incoming.modified) {
+      if (!target.modified.has(register)) {
+        target.modified.add(register);
+        changed = true;
+      }
+    }
+
+    if (!target.stack) {
+      return changed;
+    }
+    const stack = incoming.stack;
+    if (!stack || stack.length !== target.stack.length || stack.some((entry, i) => entry.pair !== target.stack![i].pair)) {
+      target.stack = undefined;
+      return true;
+    }
+    stack.forEach((entry, i) => {
+      for (const register of entry.modified) {
+        if (!target.stack![i].modified.includes(register)) {
+          target.stack![i].modified.push(register);
+          changed = true;
+        }
+      }
+    });
+    return changed;
+  }
+}
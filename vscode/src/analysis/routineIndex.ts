@@ -0,0 +1,67 @@
+import { RGBDSParser } from '../parser/rgbdsParser';
+import { MetricsEngine, MetricsOptions, DEFAULT_METRICS_OPTIONS } from '../metrics/metricsEngine';
+import { ControlFlowAnalyzer, RoutineGraph } from './controlFlow';
+
+export interface IndexedRoutine {
+  filePath: string;
+  graph: RoutineGraph;
+}
+
+// Control-flow graphs of every routine in the workspace, for analyses that follow calls across files
+export class RoutineIndex {
+  private files: Map<string, RoutineGraph[]> = new Map();
+  private byName: Map<string, IndexedRoutine> = new Map();
+  private version = 0;
+
+  constructor(private parser: RGBDSParser, private engine: MetricsEngine, private controlFlow: ControlFlowAnalyzer) {}
+
+  clear(): void {
+    this.files.clear();
+    this.reindex();
+  }
+
+  removeFile(filePath: string): void {
+    this.files.delete(filePath);
+    this.reindex();
+  }
+
+  indexFile(filePath: string, lines: string[], options: MetricsOptions = DEFAULT_METRICS_OPTIONS): void {
+    const parsedLines = lines.map((line, i) => this.parser.parseLine(line, i));
+    const costs = this.engine.computeDocumentCosts(parsedLines, options);
+    const analyzed = Array.from(costs.lines, ([i, cost]) => ({ parsed: parsedLines[i], cost }));
+    this.updateFile(filePath, this.controlFlow.buildRoutines(analyzed));
+  }
+
+  // Replace the routines of a file, e.g. with the graphs of an open editor
+  updateFile(filePath: string, graphs: RoutineGraph[]): void {
+    this.files.set(filePath, graphs);
+    this.reindex();
+  }
+
+  // First definition wins when a name is defined in several files
+  get(name: string): IndexedRoutine | undefined {
+    return this.byName.get(name.toUpperCase());
+  }
+
+  getFile(filePath: string): RoutineGraph[] {
+    return this.files.get(filePath) || [];
+  }
+
+  // Bumped on every change, so analyses can drop results computed from older graphs
+  getVersion(): number {
+    return this.version;
+  }
+
+  private reindex(): void {
+    this.version++;
+    this.byName.clear();
+    for (const [filePath, graphs] of this.files) {
+      for (const graph of graphs) {
+        const key = graph.name.toUpperCase();
+        if (!this.byName.has(key)) {
+          this.byName.set(key, { filePath, graph });
+        }
+      }
+    }
+  }
+}
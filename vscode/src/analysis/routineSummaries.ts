@@ -0,0 +1,59 @@
+import { IndexedRoutine, RoutineIndex } from './routineIndex';
+
+// Routine being computed and the routines still in progress that it (or its callees) called back into
+interface Frame {
+  key: string;
+  reached: Set<string>;
+}
+
+// Per-routine results computed on demand and cached until the index changes.
+// A recursive call sees its callee as missing; a summary that relied on such a call
+// is only partial and isn't cached, so A→B→A doesn't leave B without A's effects.
+export class RoutineSummaries<T> {
+  private cache: Map<string, T> = new Map();
+  private cacheVersion = -1;
+  private stack: Frame[] = [];
+
+  constructor(private index: RoutineIndex) {}
+
+  get(name: string, compute: (entry: IndexedRoutine) => T): T | undefined {
+    if (this.cacheVersion !== this.index.getVersion()) {
+      this.cache.clear();
+      this.cacheVersion = this.index.getVersion();
+    }
+    const key = name.toUpperCase();
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+    const entry = this.index.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (this.isInProgress(key)) {
+      this.stack[this.stack.length - 1].reached.add(key);
+      return undefined;
+    }
+
+    const frame: Frame = { key, reached: new Set() };
+    this.stack.push(frame);
+    try {
+      const summary = compute(entry);
+      frame.reached.delete(key);
+      if (frame.reached.size === 0) {
+        this.cache.set(key, summary);
+      }
+      return summary;
+    } finally {
+      this.stack.pop();
+      const parent = this.stack[this.stack.length - 1];
+      frame.reached.forEach(reached => parent?.reached.add(reached));
+    }
+  }
+
+  // The routine is being computed further up the call chain, so a call to it is recursion rather than unknown
+  isInProgress(name: string): boolean {
+    const key = name.toUpperCase();
+    return this.stack.some(frame => frame.key === key);
+  }
+}
@@ -0,0 +1,356 @@
+import * as path from 'path';
+import { ParsedLine, SectionHeader, SectionInfo, SectionType, LineAddress, AlignmentCheck } from '../parser/types';
+import { RGBDSParser } from '../parser/rgbdsParser';
+import { ExpressionEvaluator } from '../parser/expressionEvaluator';
+import { MetricsEngine, MetricsOptions, DocumentCosts, DEFAULT_METRICS_OPTIONS } from '../metrics/metricsEngine';
+
+// Size of one bank of each memory type
+export const SECTION_LIMITS: { [type in SectionType]: number } = {
+  ROM0: 0x4000,
+  ROMX: 0x4000,
+  VRAM: 0x2000,
+  SRAM: 0x2000,
+  WRAM0: 0x1000,
+  WRAMX: 0x1000,
+  OAM: 0xA0,
+  HRAM: 0x7F
+};
+
+// Banked types; the others have a single bank
+const BANKED_TYPES: SectionType[] = ['ROMX', 'VRAM', 'SRAM', 'WRAMX'];
+
+// Fraction of a bank above which it is reported as nearly full
+const NEAR_LIMIT = 0.9;
+
+export type UsageStatus = 'ok' | 'near' | 'over';
+
+export interface BankUsage {
+  type: SectionType;
+  bank?: number;           // Undefined for floating sections of banked types
+  used: number;
+  limit: number;
+  status: UsageStatus;
+  sections: SectionInfo[]; // FRAGMENTs and UNIONs already merged per name
+}
+
+export interface FileLayout {
+  sections: SectionInfo[];
+  addresses: Map<number, LineAddress>;  // Lines in sections with a known origin
+  alignments: AlignmentCheck[];
+}
+
+// The low `bits` bits of the address at section offset o are base + (o - baseOffset)
+interface Placement {
+  bits: number;
+  base: number;
+  baseOffset: number;
+}
+
+interface SectionState {
+  info: SectionInfo;
+  offset: number;
+  placement: Placement;
+  bank?: number;
+}
+
+// Section-aware byte accounting across the workspace, grouped per memory bank
+export class SectionUsageAnalyzer {
+  private files: Map<string, FileLayout> = new Map();
+  private evaluator: ExpressionEvaluator;
+
+  constructor(private parser: RGBDSParser, private engine: MetricsEngine) {
+    this.evaluator = parser.getEvaluator();
+  }
+
+  clear(): void {
+    this.files.clear();
+  }
+
+  removeFile(filePath: string): void {
+    this.files.delete(filePath);
+  }
+
+  indexFile(filePath: string, lines: string[], options: MetricsOptions = DEFAULT_METRICS_OPTIONS): void {
+    const parsedLines = lines.map((line, i) => this.parser.parseLine(line, i));
+    this.updateFile(filePath, parsedLines, this.engine.computeDocumentCosts(parsedLines, options));
+  }
+
+  // Re-index a file that was already parsed and costed, e.g. an open editor
+  updateFile(filePath: string, lines: ParsedLine[], costs: DocumentCosts): FileLayout {
+    const layout = this.layoutFile(lines, costs, filePath);
+    this.files.set(filePath, layout);
+    return layout;
+  }
+
+  getAddress(filePath: string, lineNumber: number): LineAddress | undefined {
+    return this.files.get(filePath)?.addresses.get(lineNumber);
+  }
+
+  getAlignmentChecks(filePath: string): AlignmentCheck[] {
+    return this.files.get(filePath)?.alignments || [];
+  }
+
+  // "$0150" for unbanked memory, "01:4000" (as in .sym files) when the bank is known
+  formatAddress(address: LineAddress): string {
+    const hex = address.address.toString(16).toUpperCase().padStart(4, '0');
+    return address.bank !== undefined ? `${address.bank.toString(16).toUpperCase().padStart(2, '0')}:${hex}` : `$${hex}`;
+  }
+
+  describeAlignment(check: AlignmentCheck): string {
+    const boundary = `${2 ** check.bits}-byte boundary${check.offset ? ` + ${check.offset}` : ''}`;
+    switch (check.status) {
+      case 'ok':
+        return `Aligned to a ${boundary}`;
+      case 'misaligned':
+        return `Not aligned to a ${boundary}: address mod ${2 ** check.bits} is ${check.residue}`;
+      default:
+        return `Alignment to a ${boundary} can't be verified: the section needs a fixed address or ALIGN[${check.bits}] or more`;
+    }
+  }
+
+  // Walk the file's sections: bytes per section, addresses where the origin is known and @align checks
+  private layoutFile(lines: ParsedLine[], costs: DocumentCosts, filePath: string): FileLayout {
+    const layout: FileLayout = { sections: [], addresses: new Map(), alignments: [] };
+    const stack: (SectionState | undefined)[] = [];
+    let current: SectionState | undefined;
+    let pendingAlign: { bits: number; offset: number } | undefined;
+
+    for (const parsed of lines) {
+      const cost = costs.lines.get(parsed.lineNumber);
+      if (!cost) {
+        continue;  // Inactive branch or macro definition
+      }
+
+      const annotation = parsed.comment?.match(/@align\s+([^,;]+?)\s*(?:,\s*([^;]+?)\s*)?$/i);
+      if (annotation) {
+        const bits = this.evaluator.evaluate(annotation[1]);
+        const offset = annotation[2] !== undefined ? this.evaluator.evaluate(annotation[2]) : 0;
+        if (bits !== undefined && offset !== undefined && bits >= 0 && bits <= 16) {
+          pendingAlign = { bits, offset };
+        }
+      }
+
+      if (parsed.isDirective) {
+        switch (parsed.instruction) {
+          case 'SECTION': {
+            const header = this.parser.parseSectionHeader(parsed.raw);
+            if (current) {
+              current.info.endLine = parsed.lineNumber - 1;
+            }
+            current = header ? this.startSection(header, filePath, parsed.lineNumber) : undefined;
+            if (current) {
+              layout.sections.push(current.info);
+            }
+            continue;
+          }
+          case 'ENDSECTION':
+            if (current) {
+              current.info.endLine = parsed.lineNumber;
+            }
+            current = undefined;
+            continue;
+          case 'PUSHS':
+            stack.push(current);
+            current = undefined;
+            continue;
+          case 'POPS':
+            current = stack.pop();
+            continue;
+          case 'ALIGN':
+            if (current) {
+              this.alignSection(current, parsed);
+              current.info.endLine = parsed.lineNumber;
+            }
+            continue;
+        }
+      }
+
+      if (!current) {
+        if (pendingAlign && (parsed.label || parsed.instruction)) {
+          layout.alignments.push({ lineNumber: parsed.lineNumber, ...pendingAlign, status: 'unknown' });
+          pendingAlign = undefined;
+        }
+        continue;
+      }
+
+      const { placement } = current;
+      const position = placement.base + current.offset - placement.baseOffset;
+      if (placement.bits >= 16) {
+        layout.addresses.set(parsed.lineNumber, { address: position & 0xFFFF, bank: current.bank, section: current.info.name });
+      }
+
+      if (pendingAlign && (parsed.label || parsed.instruction)) {
+        const known = placement.bits >= pendingAlign.bits;
+        const residue = known ? this.lowBits(position, pendingAlign.bits) : undefined;
+        const status = !known ? 'unknown' : residue === this.lowBits(pendingAlign.offset, pendingAlign.bits) ? 'ok' : 'misaligned';
+        layout.alignments.push({ lineNumber: parsed.lineNumber, ...pendingAlign, status, residue });
+        pendingAlign = undefined;
+      }
+
+      current.offset += cost.bytes;
+      current.info.bytes += cost.bytes;
+      current.info.endLine = parsed.lineNumber;
+    }
+
+    return layout;
+  }
+
+  private startSection(header: SectionHeader, filePath: string, lineNumber: number): SectionState {
+    // A fragment's position within the merged section depends on the other fragments
+    let placement: Placement = { bits: 0, base: 0, baseOffset: 0 };
+    if (header.modifier !== 'FRAGMENT') {
+      if (header.address !== undefined) {
+        placement = { bits: 16, base: header.address, baseOffset: 0 };
+      } else if (header.alignBits !== undefined) {
+        placement = { bits: header.alignBits, base: header.alignOffset ?? 0, baseOffset: 0 };
+      }
+    }
+
+    return {
+      info: { ...header, filePath, lineNumber, endLine: lineNumber, bytes: 0 },
+      offset: 0,
+      placement,
+      bank: BANKED_TYPES.includes(header.type) ? header.bank : undefined
+    };
+  }
+
+  // "ALIGN n[, offset]" pads to the boundary; the padding is only known if the placement determines enough low bits
+  private alignSection(section: SectionState, parsed: ParsedLine): void {
+    const args = this.parser.removeComments(parsed.raw).replace(/^.*?\bALIGN\b/i, '').split(',');
+    const bits = this.evaluator.evaluate(args[0]);
+    const offset = args.length > 1 ? this.evaluator.evaluate(args[1]) : 0;
+    if (bits === undefined || offset === undefined || bits < 0 || bits > 16) {
+      return;
+    }
+
+    const { placement } = section;
+    if (placement.bits >= bits) {
+      const position = placement.base + section.offset - placement.baseOffset;
+      const padding = this.lowBits(offset - position, bits);
+      section.offset += padding;
+      section.info.bytes += padding;
+    } else {
+      section.placement = { bits, base: offset, baseOffset: section.offset };
+    }
+  }
+
+  private lowBits(value: number, bits: number): number {
+    const modulus = 2 ** bits;
+    return ((value % modulus) + modulus) % modulus;
+  }
+
+  getSections(): SectionInfo[] {
+    return Array.from(this.files.values()).flatMap(layout => layout.sections);
+  }
+
+  getBankUsage(): BankUsage[] {
+    const banks = new Map<string, BankUsage>();
+
+    for (const section of this.getMergedSections()) {
+      const bank = BANKED_TYPES.includes(section.type) ? section.bank : undefined;
+      const key = `${section.type}:${bank ?? '-'}`;
+      let usage = banks.get(key);
+      if (!usage) {
+        usage = { type: section.type, bank, used: 0, limit: SECTION_LIMITS[section.type], status: 'ok', sections: [] };
+        banks.set(key, usage);
+      }
+      usage.sections.push(section);
+      usage.used += section.bytes;
+    }
+
+    for (const usage of banks.values()) {
+      // Floating sections are spread over banks by the linker, so only each section has to fit
+      const measured = this.isFloating(usage) ? Math.max(...usage.sections.map(section => section.bytes)) : usage.used;
+      usage.status = this.getStatus(measured, usage.limit);
+    }
+
+    const typeOrder = Object.keys(SECTION_LIMITS);
+    return Array.from(banks.values()).sort((a, b) =>
+      typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type) || (a.bank ?? -1) - (b.bank ?? -1));
+  }
+
+  // Sections across the workspace with FRAGMENTs and UNIONs merged per name
+  getMergedSections(): SectionInfo[] {
+    return this.mergeSections(this.getSections());
+  }
+
+  getStatus(used: number, limit: number): UsageStatus {
+    return used > limit ? 'over' : used >= limit * NEAR_LIMIT ? 'near' : 'ok';
+  }
+
+  isBanked(type: SectionType): boolean {
+    return BANKED_TYPES.includes(type);
+  }
+
+  // Markdown report of every bank, flagging those near or over their limit
+  formatReport(rootPath?: string): string {
+    const usages = this.getBankUsage();
+    const lines: string[] = ['# Bank usage', ''];
+
+    if (usages.length === 0) {
+      lines.push('No `SECTION`s found in the workspace.');
+      return lines.join('\n');
+    }
+
+    const statusText: { [status in UsageStatus]: string } = { ok: '', near: '⚠️ near limit', over: '❌ over limit' };
+    lines.push('| Region | Bank | Used | Free | Limit | Usage | |');
+    lines.push('|:---|:---|---:|---:|---:|---:|:---|');
+    for (const usage of usages) {
+      const free = this.isFloating(usage) ? '' : `${usage.limit - usage.used}`;
+      const percent = this.isFloating(usage) ? '' : `${(usage.used / usage.limit * 100).toFixed(1)}%`;
+      lines.push(`| ${usage.type} | ${this.formatBank(usage)} | ${usage.used} | ${free} | ${usage.limit} | ${percent} | ${statusText[usage.status]} |`);
+    }
+
+    for (const usage of usages) {
+      lines.push('', BANKED_TYPES.includes(usage.type) ? `## ${usage.type} ${this.formatBank(usage)}` : `## ${usage.type}`, '');
+      lines.push('| Section | Address | Bytes | Location |');
+      lines.push('|:---|:---|---:|:---|');
+      const sorted = [...usage.sections].sort((a, b) => (a.address ?? Infinity) - (b.address ?? Infinity) || b.bytes - a.bytes);
+      for (const section of sorted) {
+        const address = section.address !== undefined ? `$${section.address.toString(16).toUpperCase().padStart(4, '0')}` : '-';
+        const file = rootPath ? path.relative(rootPath, section.filePath) : section.filePath;
+        const name = section.modifier ? `${section.name} (${section.modifier.toLowerCase()})` : section.name;
+        lines.push(`| ${name} | ${address} | ${section.bytes} | ${file}:${section.lineNumber + 1} |`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  // FRAGMENTs with the same name are concatenated, UNION members overlap (largest wins)
+  private mergeSections(sections: SectionInfo[]): SectionInfo[] {
+    const merged = new Map<string, SectionInfo>();
+    const result: SectionInfo[] = [];
+
+    for (const section of sections) {
+      if (!section.modifier) {
+        result.push(section);
+        continue;
+      }
+      const key = `${section.modifier}:${section.name}`;
+      const existing = merged.get(key);
+      if (!existing) {
+        const copy = { ...section };
+        merged.set(key, copy);
+        result.push(copy);
+      } else if (section.modifier === 'FRAGMENT') {
+        existing.bytes += section.bytes;
+      } else {
+        existing.bytes = Math.max(existing.bytes, section.bytes);
+      }
+    }
+
+    return result;
+  }
+
+  private isFloating(usage: BankUsage): boolean {
+    return BANKED_TYPES.includes(usage.type) && usage.bank === undefined;
+  }
+
+  private formatBank(usage: BankUsage): string {
+    if (!BANKED_TYPES.includes(usage.type)) {
+      return '-';
+    }
+    return usage.bank !== undefined ? `${usage.bank}` : 'floating';
+  }
+}
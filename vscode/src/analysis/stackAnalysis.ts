@@ -0,0 +1,250 @@
+import { AsmDiagnostic, ParsedLine } from '../parser/types';
+import { ExpressionEvaluator } from '../parser/expressionEvaluator';
+import { CfgNode, RoutineGraph } from './controlFlow';
+import { RoutineIndex } from './routineIndex';
+import { RoutineSummaries } from './routineSummaries';
+
+// Stack use of a routine, measured in bytes pushed below its return address
+export interface StackSummary {
+  name: string;
+  filePath: string;
+  startLine: number;
+  maxDepth: number;        // Deepest point, callees included
+  deepestLine?: number;    // Line reaching that depth
+  deepestVia?: string;     // Callee on that line, when the depth is reached inside it
+  exact: boolean;          // False when an unknown callee, rst or `ld sp` makes maxDepth a lower bound
+  balanced: boolean;       // Every ret is reached with nothing left pushed
+  unknownCalls: string[];
+  warnings: AsmDiagnostic[];
+}
+
+// Change of the stack depth on one line
+interface StackEffect {
+  delta?: number;    // Net bytes pushed; undefined when the new depth can't be known (ld sp, add sp with an unknown offset)
+  peak: number;      // Deepest point reached while executing the line, relative to the depth before it
+  callee?: string;   // Routine called (or jumped to) on this line
+  unknown?: string;  // Call target that can't be followed, e.g. "rst $38"
+}
+
+// Stack depth before each line; undefined once the stack pointer was loaded directly
+type Depth = number | undefined;
+
+const RETURN_ADDRESS = 2;
+
+// SP delta per routine: unbalanced returns, paths merging at different depths, and the deepest point including callees
+export class StackAnalyzer {
+  private summaries: RoutineSummaries<StackSummary>;
+
+  constructor(private index: RoutineIndex, private evaluator: ExpressionEvaluator) {
+    this.summaries = new RoutineSummaries(index);
+  }
+
+  getSummary(name: string): StackSummary | undefined {
+    return this.summaries.get(name, entry => this.analyzeGraph(entry.filePath, entry.graph));
+  }
+
+  checkFile(filePath: string): AsmDiagnostic[] {
+    return this.index.getFile(filePath).flatMap(graph => {
+      const summary = this.getSummary(graph.name);
+      return summary && summary.startLine === graph.startLine && summary.filePath === filePath ? summary.warnings : [];
+    });
+  }
+
+  // "6 bytes", "at least 4 bytes"
+  formatDepth(summary: StackSummary): string {
+    return `${summary.exact ? '' : 'at least '}${summary.maxDepth} byte${summary.maxDepth === 1 ? '' : 's'}`;
+  }
+
+  private analyzeGraph(filePath: string, graph: RoutineGraph): StackSummary {
+    const summary: StackSummary = {
+      name: graph.name,
+      filePath,
+      startLine: graph.startLine,
+      maxDepth: 0,
+      exact: true,
+      balanced: true,
+      unknownCalls: [],
+      warnings: []
+    };
+    if (graph.entry === undefined) {
+      return summary;
+    }
+
+    const unknownCalls = new Set<string>();
+    const depths = new Map<number, Depth>([[graph.entry, 0]]);
+    const mismatches = new Map<number, Set<number>>();
+    const worklist = [graph.entry];
+
+    while (worklist.length > 0) {
+      const line = worklist.shift()!;
+      const node = graph.nodes.get(line)!;
+      const depth = depths.get(line);
+      const effect = this.nodeEffect(node);
+      const isTailJump = node.successors.some(edge => edge.exitKind === 'tailjump');
+
+      // Deepest point on this line, following the callee if there is one
+      let peak = effect.peak;
+      let via: string | undefined;
+      if (effect.callee) {
+        const callee = this.getSummary(effect.callee);
+        if (!callee) {
+          summary.exact = false;
+          if (!this.summaries.isInProgress(effect.callee)) {
+            unknownCalls.add(effect.callee);
+          }
+        } else if (!callee.exact) {
+          summary.exact = false;
+        }
+        const calleeDepth = (callee?.maxDepth || 0) + (isTailJump ? 0 : RETURN_ADDRESS);
+        if (calleeDepth > peak) {
+          peak = calleeDepth;
+          via = effect.callee;
+        }
+      }
+      if (effect.unknown) {
+        summary.exact = false;
+        unknownCalls.add(effect.unknown);
+      }
+      if (depth === undefined) {
+        summary.exact = false;
+      } else if (depth + peak > summary.maxDepth) {
+        summary.maxDepth = depth + peak;
+        summary.deepestLine = line;
+        summary.deepestVia = via;
+      }
+
+      const after: Depth = depth === undefined || effect.delta === undefined ? undefined : depth + effect.delta;
+      for (const edge of node.successors) {
+        if (edge.target === undefined) {
+          if ((edge.exitKind === 'ret' || edge.exitKind === 'reti') && after !== undefined && after !== 0) {
+            summary.balanced = false;
+            summary.warnings.push(this.createWarning(node, 'stack-imbalance', this.describeImbalance(node, after)));
+          }
+          continue;
+        }
+        if (!depths.has(edge.target)) {
+          depths.set(edge.target, after);
+          worklist.push(edge.target);
+          continue;
+        }
+        const existing = depths.get(edge.target);
+        if (existing === undefined || existing === after) {
+          continue;
+        }
+        if (after === undefined) {
+          // A path that loaded SP joins: nothing is known past this point
+          depths.set(edge.target, undefined);
+          worklist.push(edge.target);
+          continue;
+        }
+        // Keep the first depth so loops that push on every pass still settle
+        const seen = mismatches.get(edge.target) || new Set([existing]);
+        seen.add(after);
+        mismatches.set(edge.target, seen);
+      }
+    }
+
+    for (const [line, seen] of mismatches) {
+      summary.balanced = false;
+      const list = Array.from(seen).sort((a, b) => a - b).join(' and ');
+      summary.warnings.push(this.createWarning(graph.nodes.get(line)!, 'stack-mismatch',
+        `Paths reach this line with different stack depths (${list} bytes pushed since ${graph.name})`));
+    }
+
+    summary.unknownCalls = Array.from(unknownCalls);
+    return summary;
+  }
+
+  private describeImbalance(node: CfgNode, depth: number): string {
+    const text = this.instructionText(node);
+    if (depth > 0) {
+      return `'${text}' is reached with ${depth} byte${depth === 1 ? '' : 's'} still pushed; it would return to a pushed value instead of the caller`;
+    }
+    return `'${text}' is reached after popping ${-depth} byte${depth === -1 ? '' : 's'} more than were pushed; the return address was already taken`;
+  }
+
+  private nodeEffect(node: CfgNode): StackEffect {
+    const { parsed } = node;
+    if (parsed.isPredefCall) {
+      return { delta: 0, peak: 0, callee: parsed.operands[0]?.trim() };
+    }
+    if (parsed.isMacroCall) {
+      return this.sequenceEffect(node.cost.expansion || []);
+    }
+    const effect = this.instructionEffect(parsed);
+    const mnemonic = parsed.instruction?.toUpperCase();
+    const target = parsed.operands[parsed.operands.length - 1]?.trim();
+    const leaves = node.successors.some(edge => edge.exitKind === 'tailjump');
+    if (target && !target.startsWith('.') && leaves && (mnemonic === 'JP' || mnemonic === 'JR')) {
+      effect.callee = target;
+    }
+    return effect;
+  }
+
+  // A macro body as straight-line code
+  private sequenceEffect(lines: ParsedLine[]): StackEffect {
+    const total: StackEffect = { delta: 0, peak: 0 };
+    for (const line of lines) {
+      const effect = this.instructionEffect(line);
+      if (total.delta === undefined) {
+        break;
+      }
+      total.peak = Math.max(total.peak, total.delta + effect.peak);
+      total.delta = effect.delta === undefined ? undefined : total.delta + effect.delta;
+      total.callee = total.callee || effect.callee;
+      total.unknown = total.unknown || effect.unknown;
+    }
+    return total;
+  }
+
+  private instructionEffect(parsed: ParsedLine): StackEffect {
+    const mnemonic = parsed.instruction?.toUpperCase() || '';
+    if (!parsed.instruction || parsed.isDirective) {
+      return { delta: 0, peak: 0 };
+    }
+    const operands = parsed.operands.map(operand => operand.trim());
+    const first = operands[0]?.toLowerCase();
+
+    switch (mnemonic) {
+      case 'PUSH':
+        return { delta: 2, peak: 2 };
+      case 'POP':
+        return { delta: -2, peak: 0 };
+      case 'CALL': {
+        const target = operands[operands.length - 1];
+        return { delta: 0, peak: RETURN_ADDRESS, callee: target && !target.startsWith('.') ? target : undefined };
+      }
+      case 'RST':
+        return { delta: 0, peak: RETURN_ADDRESS, unknown: `rst ${operands[0] || ''}`.trim() };
+      case 'INC':
+        return first === 'sp' ? { delta: -1, peak: 0 } : { delta: 0, peak: 0 };
+      case 'DEC':
+        return first === 'sp' ? { delta: 1, peak: 1 } : { delta: 0, peak: 0 };
+      case 'ADD': {
+        if (first !== 'sp') {
+          return { delta: 0, peak: 0 };
+        }
+        // SP grows down: "add sp, -4" reserves 4 bytes
+        const offset = operands[1] !== undefined ? this.evaluator.evaluate(operands[1]) : undefined;
+        return offset === undefined ? { delta: undefined, peak: 0 } : { delta: -offset, peak: Math.max(0, -offset) };
+      }
+      case 'LD':
+        return first === 'sp' ? { delta: undefined, peak: 0 } : { delta: 0, peak: 0 };
+      default:
+        return { delta: 0, peak: 0 };
+    }
+  }
+
+  private createWarning(node: CfgNode, code: string, message: string): AsmDiagnostic {
+    const raw = node.parsed.raw;
+    const start = raw.length - raw.trimStart().length;
+    const label = raw.slice(start).match(/^[\w.]+:+\s*/);
+    const column = start + (label ? label[0].length : 0);
+    return { lineNumber: node.line, column, length: this.instructionText(node).length, severity: 'warning', code, message };
+  }
+
+  // Instruction as written, without label or comment
+  private instructionText(node: CfgNode): string {
+    return node.parsed.raw.replace(/;.*$/, '').trim().replace(/^[\w.]+:+\s*/, '');
+  }
+}
@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { Project } from '../core/project';
+import { DEFAULT_BUDGET_PROFILES } from '../analysis/budgetAnalysis';
+import { DEFAULT_EXCLUDES, WorkspaceFileOptions } from '../core/workspaceFiles';
+import { DEFAULT_REPORT_OPTIONS, MetricsReporter, ReportOptions } from './metricsReport';
+import { REPORT_FORMATS, ReportFormat, ReportFormatter } from './reportFormatter';
+
+const USAGE = `Usage: gbasm-metrics report <file|directory>... [options]
+
+Bytes and cycles per routine and section of RGBDS assembly sources.
+
+Options:
+  --format json|csv|md        Output format (default: md)
+  --output FILE               Write the report to FILE instead of stdout
+  --budget NAME=CYCLES        Add or override a "; @budget" profile (repeatable)
+  --max-routine-bytes N       Fail when a routine is larger than N bytes
+  --max-routine-cycles N      Fail when a routine's worst-case path takes more than N cycles
+  -D NAME[=VALUE]             Define a symbol for IF blocks, like rgbasm -D (repeatable)
+  -I DIR                      Also search DIR for INCLUDEd files, like rgbasm -I (repeatable)
+  --exclude GLOB              Skip files and directories matching GLOB (repeatable)
+  --no-gitignore              Also report files that .gitignore ignores
+  --help                      Show this help
+
+Exits with 1 when a budget, limit or bank size is exceeded, 2 on usage errors and 3 when the
+report itself fails (e.g. the output can't be written).`;
+
+class UsageError extends Error {}
+
+interface CliArguments {
+  paths: string[];
+  format: ReportFormat;
+  output?: string;
+  options: ReportOptions;
+  defines: Map<string, string>;
+  includePaths: string[];
+  files: WorkspaceFileOptions;
+}
+
+function parseArguments(args: string[]): CliArguments {
+  if (args[0] !== 'report') {
+    throw new UsageError(args.length === 0 ? 'Missing command' : `Unknown command '${args[0]}'`);
+  }
+
+  const result: CliArguments = {
+    paths: [],
+    format: 'md',
+    options: { ...DEFAULT_REPORT_OPTIONS, budgets: { ...DEFAULT_BUDGET_PROFILES } },
+    defines: new Map(),
+    includePaths: [process.cwd()],
+    files: { excludes: [...DEFAULT_EXCLUDES], useGitignore: true }
+  };
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      if (i + 1 >= args.length) {
+        throw new UsageError(`${arg} expects a value`);
+      }
+      return args[++i];
+    };
+
+    if (arg === '--format') {
+      const format = value();
+      if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+        throw new UsageError(`Unknown format '${format}'`);
+      }
+      result.format = format as ReportFormat;
+    } else if (arg === '--output') {
+      result.output = value();
+    } else if (arg === '--budget') {
+      const match = value().match(/^([\w.]+)=(\d+)$/);
+      if (!match) {
+        throw new UsageError('--budget expects NAME=CYCLES');
+      }
+      result.options.budgets[match[1].toLowerCase()] = parseInt(match[2], 10);
+    } else if (arg === '--max-routine-bytes') {
+      result.options.maxRoutineBytes = parseCount(arg, value());
+    } else if (arg === '--max-routine-cycles') {
+      result.options.maxRoutineCycles = parseCount(arg, value());
+    } else if (arg.startsWith('-D')) {
+      const definition = arg === '-D' ? value() : arg.slice(2);
+      const separator = definition.indexOf('=');
+      const name = separator >= 0 ? definition.slice(0, separator) : definition;
+      result.defines.set(name, separator >= 0 ? definition.slice(separator + 1) : '1');
+    } else if (arg.startsWith('-I')) {
+      result.includePaths.push(path.resolve(arg === '-I' ? value() : arg.slice(2)));
+    } else if (arg === '--exclude') {
+      result.files.excludes.push(value());
+    } else if (arg === '--no-gitignore') {
+      result.files.useGitignore = false;
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option '${arg}'`);
+    } else {
+      result.paths.push(arg);
+    }
+  }
+
+  if (result.paths.length === 0) {
+    throw new UsageError('No files or directories given');
+  }
+  return result;
+}
+
+function parseCount(option: string, text: string): number {
+  if (!/^\d+$/.test(text)) {
+    throw new UsageError(`${option} expects a number`);
+  }
+  return parseInt(text, 10);
+}
+
+async function main(args: string[]): Promise<number> {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const project = new Project();
+  const reporter = new MetricsReporter(project);
+  let cli: CliArguments;
+  let files: string[];
+  try {
+    cli = parseArguments(args);
+    files = await reporter.collectFiles(cli.paths, cli.files);
+  } catch (e) {
+    console.error(`gbasm-metrics: ${(e as Error).message}`);
+    if (e instanceof UsageError) {
+      console.error(`\n${USAGE}`);
+    }
+    return 2;
+  }
+
+  project.setOptions({ includePaths: cli.includePaths });
+  project.constantTable.setPredefined(cli.defines);
+  const report = await reporter.run(files, cli.options);
+  const output = new ReportFormatter().format(report, cli.format);
+  if (cli.output) {
+    fs.writeFileSync(cli.output, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  // Violations go to stderr too, so CI logs show them whatever the format
+  for (const violation of report.violations) {
+    const location = violation.file ? `${violation.file}:${violation.line}: ` : '';
+    console.error(`${location}${violation.message}`);
+  }
+  return report.violations.length > 0 ? 1 : 0;
+}
+
+// Anything thrown beyond the usage checks gets its own code, so CI doesn't mistake it for a violation
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+}).catch(error => {
+  console.error(`gbasm-metrics: ${(error as Error).stack || error}`);
+  process.exitCode = 3;
+});
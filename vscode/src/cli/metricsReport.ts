@@ -0,0 +1,174 @@
+import * as path from 'path';
+import { Project } from '../core/project';
+import { DEFAULT_WORKSPACE_FILE_OPTIONS, WorkspaceFiles, WorkspaceFileOptions } from '../core/workspaceFiles';
+import { MetricsOptions, DEFAULT_METRICS_OPTIONS } from '../metrics/metricsEngine';
+import { UsageStatus } from '../analysis/sectionUsage';
+import { BudgetProfiles, BudgetStatus, DEFAULT_BUDGET_PROFILES } from '../analysis/budgetAnalysis';
+import { SectionType } from '../parser/types';
+
+export interface ReportOptions {
+  metrics: MetricsOptions;
+  budgets: BudgetProfiles;
+  maxRoutineBytes?: number;
+  maxRoutineCycles?: number;
+  rootPath: string;          // File paths in the report are relative to it
+}
+
+export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
+  metrics: DEFAULT_METRICS_OPTIONS,
+  budgets: DEFAULT_BUDGET_PROFILES,
+  rootPath: process.cwd()
+};
+
+export interface RoutineReport {
+  name: string;
+  file: string;
+  line: number;              // 1-based
+  bytes: number;
+  minCycles?: number;        // Best and worst path through the routine itself, undefined when it never returns
+  maxCycles?: number;
+  budget?: {
+    profile: string;
+    cycles?: number;         // Undefined for unknown profiles
+    worstCycles?: number;    // Callees included
+    percent?: number;
+    exact: boolean;
+    status: BudgetStatus;
+  };
+}
+
+export interface SectionReport {
+  name: string;
+  type: SectionType;
+  bank?: number;
+  address?: number;
+  bytes: number;
+  file: string;
+  line: number;
+}
+
+export interface BankReport {
+  type: SectionType;
+  bank?: number;
+  used: number;
+  limit: number;
+  status: UsageStatus;
+}
+
+// A budget, threshold or bank limit that was exceeded; any of them fails the run
+export interface Violation {
+  kind: 'budget' | 'unknown-budget' | 'routine-bytes' | 'routine-cycles' | 'bank';
+  file?: string;
+  line?: number;
+  message: string;
+}
+
+export interface MetricsReport {
+  files: string[];
+  routines: RoutineReport[];
+  sections: SectionReport[];
+  banks: BankReport[];
+  violations: Violation[];
+}
+
+// Runs the editor's parser and analyses over files on disk, for reports and CI checks
+export class MetricsReporter {
+  constructor(private project: Project) {}
+
+  // Assembly files among the given files and directories, sorted, without excluded and git-ignored ones
+  collectFiles(paths: string[], fileOptions: WorkspaceFileOptions = DEFAULT_WORKSPACE_FILE_OPTIONS): Promise<string[]> {
+    return new WorkspaceFiles(process.cwd(), fileOptions).collect(paths);
+  }
+
+  async run(files: string[], options: ReportOptions = DEFAULT_REPORT_OPTIONS): Promise<MetricsReport> {
+    this.project.setOptions({ metrics: options.metrics, budgets: options.budgets });
+    this.project.clear();
+
+    // Read through the project's cache, so files that are also included aren't read twice
+    const sources = new Map<string, string[]>();
+    for (const file of files) {
+      const lines = await this.project.sources.load(file) || [];
+      await this.project.sources.loadIncludes(file, lines);
+      sources.set(file, lines);
+    }
+
+    // Routines and sections of every file first, so calls and banks are known across files
+    for (const [file, lines] of sources) {
+      this.project.indexFile(file, lines);
+    }
+
+    const report: MetricsReport = { files: files.map(file => this.relative(file, options)), routines: [], sections: [], banks: [], violations: [] };
+    for (const [file, lines] of sources) {
+      this.reportFile(file, lines, options, report);
+    }
+
+    for (const section of this.project.sectionUsageAnalyzer.getMergedSections()) {
+      report.sections.push({
+        name: section.name,
+        type: section.type,
+        bank: section.bank,
+        address: section.address,
+        bytes: section.bytes,
+        file: this.relative(section.filePath, options),
+        line: section.lineNumber + 1
+      });
+    }
+    for (const usage of this.project.sectionUsageAnalyzer.getBankUsage()) {
+      const bank = usage.bank !== undefined ? ` bank ${usage.bank}` : '';
+      report.banks.push({ type: usage.type, bank: usage.bank, used: usage.used, limit: usage.limit, status: usage.status });
+      if (usage.status === 'over') {
+        report.violations.push({ kind: 'bank', message: `${usage.type}${bank} is over its size limit: ${usage.used}/${usage.limit} bytes` });
+      }
+    }
+    return report;
+  }
+
+  private reportFile(filePath: string, lines: string[], options: ReportOptions, report: MetricsReport): void {
+    const { costs, routines, budgets } = this.project.analyze(filePath, lines);
+    const file = this.relative(filePath, options);
+
+    for (const routine of routines) {
+      let bytes = 0;
+      for (let line = routine.startLine; line <= routine.endLine; line++) {
+        bytes += costs.lines.get(line)?.bytes ?? 0;
+      }
+      const budget = budgets.find(candidate => candidate.labelLine === routine.startLine);
+      const entry: RoutineReport = {
+        name: routine.name,
+        file,
+        line: routine.startLine + 1,
+        bytes,
+        minCycles: routine.minCycles,
+        maxCycles: routine.maxCycles
+      };
+      if (budget) {
+        entry.budget = {
+          profile: budget.profile,
+          cycles: budget.budget,
+          worstCycles: budget.worstCycles,
+          percent: budget.percent,
+          exact: budget.exact,
+          status: budget.status
+        };
+      }
+      report.routines.push(entry);
+
+      const location = { file, line: entry.line };
+      if (budget && budget.budget === undefined) {
+        report.violations.push({ ...location, kind: 'unknown-budget', message: `${routine.name}: unknown budget profile '${budget.profile}'` });
+      } else if (budget?.status === 'over') {
+        report.violations.push({ ...location, kind: 'budget', message: `${routine.name}: ${this.project.budgetAnalyzer.formatBudget(budget)}` });
+      }
+      if (options.maxRoutineBytes !== undefined && bytes > options.maxRoutineBytes) {
+        report.violations.push({ ...location, kind: 'routine-bytes', message: `${routine.name}: ${bytes} bytes, over the limit of ${options.maxRoutineBytes}` });
+      }
+      if (options.maxRoutineCycles !== undefined && routine.maxCycles !== undefined && routine.maxCycles > options.maxRoutineCycles) {
+        report.violations.push({ ...location, kind: 'routine-cycles', message: `${routine.name}: ${routine.maxCycles} cycles on its worst-case path, over the limit of ${options.maxRoutineCycles}` });
+      }
+    }
+  }
+
+  private relative(filePath: string, options: ReportOptions): string {
+    return path.relative(options.rootPath, filePath).split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,105 @@
+import { MetricsReport, RoutineReport } from './metricsReport';
+
+export type ReportFormat = 'json' | 'csv' | 'md';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'csv', 'md'];
+
+// Turns a metrics report into JSON, a single CSV table or a markdown document
+export class ReportFormatter {
+  format(report: MetricsReport, format: ReportFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(report, null, 2) + '\n';
+      case 'csv':
+        return this.formatCsv(report);
+      case 'md':
+        return this.formatMarkdown(report);
+    }
+  }
+
+  // One row per routine and per section; the kind column tells them apart
+  private formatCsv(report: MetricsReport): string {
+    const rows: (string | number | undefined)[][] = [
+      ['kind', 'name', 'file', 'line', 'bytes', 'min_cycles', 'max_cycles', 'budget', 'budget_cycles', 'worst_cycles', 'budget_status', 'type', 'bank', 'address']
+    ];
+    for (const routine of report.routines) {
+      const budget = routine.budget;
+      rows.push([
+        'routine', routine.name, routine.file, routine.line, routine.bytes, routine.minCycles, routine.maxCycles,
+        budget?.profile, budget?.cycles, budget?.worstCycles, budget?.status, undefined, undefined, undefined
+      ]);
+    }
+    for (const section of report.sections) {
+      rows.push([
+        'section', section.name, section.file, section.line, section.bytes, undefined, undefined,
+        undefined, undefined, undefined, undefined, section.type, section.bank, this.hexAddress(section.address)
+      ]);
+    }
+    return rows.map(row => row.map(value => this.csvField(value)).join(',')).join('\n') + '\n';
+  }
+
+  private formatMarkdown(report: MetricsReport): string {
+    const lines: string[] = ['# Metrics report', '', `${report.files.length} files, ${report.routines.length} routines, ${report.sections.length} sections.`];
+
+    if (report.violations.length > 0) {
+      lines.push('', '## Violations', '');
+      for (const violation of report.violations) {
+        const location = violation.file ? ` (${violation.file}:${violation.line})` : '';
+        lines.push(`- ${violation.message}${location}`);
+      }
+    }
+
+    lines.push('', '## Routines', '');
+    lines.push('| Routine | Bytes | Cycles | Budget | Location |');
+    lines.push('|:---|---:|---:|:---|:---|');
+    for (const routine of report.routines) {
+      lines.push(`| ${routine.name} | ${routine.bytes} | ${this.cycleRange(routine)} | ${this.budgetText(routine)} | ${routine.file}:${routine.line} |`);
+    }
+
+    lines.push('', '## Banks', '');
+    lines.push('| Region | Bank | Used | Limit | Status |');
+    lines.push('|:---|:---|---:|---:|:---|');
+    for (const bank of report.banks) {
+      lines.push(`| ${bank.type} | ${bank.bank ?? '-'} | ${bank.used} | ${bank.limit} | ${bank.status} |`);
+    }
+
+    lines.push('', '## Sections', '');
+    lines.push('| Section | Region | Bank | Address | Bytes | Location |');
+    lines.push('|:---|:---|:---|:---|---:|:---|');
+    for (const section of report.sections) {
+      lines.push(`| ${section.name} | ${section.type} | ${section.bank ?? '-'} | ${this.hexAddress(section.address) ?? '-'} | ${section.bytes} | ${section.file}:${section.line} |`);
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private cycleRange(routine: RoutineReport): string {
+    if (routine.minCycles === undefined || routine.maxCycles === undefined) {
+      return '-';
+    }
+    return routine.minCycles === routine.maxCycles ? `${routine.maxCycles}` : `${routine.minCycles}-${routine.maxCycles}`;
+  }
+
+  private budgetText(routine: RoutineReport): string {
+    const budget = routine.budget;
+    if (!budget) {
+      return '';
+    }
+    if (budget.cycles === undefined || budget.worstCycles === undefined) {
+      return `${budget.profile}: ${budget.status}`;
+    }
+    const bound = budget.exact ? '' : '≥';
+    return `${budget.profile} ${bound}${budget.percent}% (${bound}${budget.worstCycles}/${budget.cycles}) ${budget.status}`;
+  }
+
+  private hexAddress(address: number | undefined): string | undefined {
+    return address !== undefined ? `$${address.toString(16).toUpperCase().padStart(4, '0')}` : undefined;
+  }
+
+  private csvField(value: string | number | undefined): string {
+    if (value === undefined) {
+      return '';
+    }
+    const text = `${value}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
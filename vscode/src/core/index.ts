@@ -0,0 +1,21 @@
+// Public surface of the editor-independent core, for the extension, the CLI and scripts
+export { Project, ProjectOptions, CountingRange, RangeTotals, FileAnalysis } from './project';
+export { WorkspaceFiles, WorkspaceFileOptions, DEFAULT_EXCLUDES } from './workspaceFiles';
+export { MetricsOptions, DEFAULT_METRICS_OPTIONS, LineCost, DocumentCosts } from '../metrics/metricsEngine';
+export { CycleDisplayMode } from '../metrics/cycleDisplay';
+export { RoutineAnalysis } from '../analysis/controlFlow';
+export { FileLayout, BankUsage, UsageStatus } from '../analysis/sectionUsage';
+export { BudgetProfiles, DEFAULT_BUDGET_PROFILES, RoutineBudget, BudgetStatus } from '../analysis/budgetAnalysis';
+export {
+  LineMetrics,
+  ParsedLine,
+  OpcodeInfo,
+  SectionType,
+  SectionInfo,
+  SymbolDefinition,
+  SymbolReference,
+  AsmDiagnostic,
+  PeepholeHint,
+  FarCall,
+  FarCallTable
+} from '../parser/types';
@@ -0,0 +1,298 @@
+import * as path from 'path';
+import { FarCallTable, LineMetrics, ParsedLine } from '../parser/types';
+import { ConstantTable, MacroRegistry, RGBDSParser, RoutineRegistry } from '../parser/rgbdsParser';
+import { ExpressionEvaluator } from '../parser/expressionEvaluator';
+import { MacroExpander } from '../parser/macroExpander';
+import { RepeatExpander } from '../parser/repeatExpander';
+import { SymbolIndex } from '../parser/symbolIndex';
+import { LinkerFiles } from '../parser/linkerFiles';
+import { SourceCache } from '../parser/sourceCache';
+import { OpcodeDatabase } from '../opcodes/opcodeData';
+import { EncodeContext, InstructionEncoder } from '../opcodes/instructionEncoder';
+import { DEFAULT_METRICS_OPTIONS, DocumentCosts, MetricsEngine, MetricsOptions } from '../metrics/metricsEngine';
+import { CycleDisplay } from '../metrics/cycleDisplay';
+import { LoopAnalyzer, LoopInfo } from '../analysis/loopAnalysis';
+import { FlagAnalyzer } from '../analysis/flagAnalysis';
+import { ControlFlowAnalyzer, RoutineAnalysis } from '../analysis/controlFlow';
+import { FileLayout, SectionUsageAnalyzer } from '../analysis/sectionUsage';
+import { RoutineIndex } from '../analysis/routineIndex';
+import { RegisterAnalyzer } from '../analysis/registerAnalysis';
+import { StackAnalyzer } from '../analysis/stackAnalysis';
+import { BudgetAnalyzer, BudgetProfiles, DEFAULT_BUDGET_PROFILES, RoutineBudget } from '../analysis/budgetAnalysis';
+import { DiagnosticsAnalyzer } from '../analysis/diagnostics';
+import { PeepholeOptimizer } from '../analysis/peephole';
+import { FileOffsets } from '../analysis/fileOffsets';
+
+export interface ProjectOptions {
+  metrics: MetricsOptions;
+  budgets: BudgetProfiles;
+  includePaths: string[];  // Absolute directories searched for INCLUDEs, like rgbasm -I
+  farCalls: FarCallTable;  // Far-call macros with their own costs, on top of predef and friends
+}
+
+// Lines whose cumulative totals are counted, like a measurement range; endLine undefined runs to the end
+export interface CountingRange {
+  startLine: number;
+  endLine?: number;
+}
+
+// What a counting range adds up to, loops' remaining iterations included
+export interface RangeTotals extends CountingRange {
+  bytes: number;
+  cycles: number;     // For the configured branch assumption, like the cumulative totals
+  minCycles: number;
+  maxCycles: number;
+}
+
+export interface FileAnalysis {
+  filePath: string;
+  parsedLines: ParsedLine[];
+  costs: DocumentCosts;
+  lines: LineMetrics[];            // Lines with bytes, cycles, an opcode or a macro call, in order
+  doubleSpeedLines: Set<number>;
+  layout: FileLayout;
+  routines: RoutineAnalysis[];
+  budgets: RoutineBudget[];
+  rangeTotals: RangeTotals[];      // One per counting range passed to analyze
+}
+
+// One set of sources with its own symbol tables and analyzers; the extension, the CLI and tests
+// each create their own, so nothing is shared between them
+export class Project {
+  readonly sources = new SourceCache();
+  readonly constantTable = new ConstantTable();
+  readonly macroRegistry = new MacroRegistry();
+  readonly routineRegistry = new RoutineRegistry();
+  readonly expressionEvaluator = new ExpressionEvaluator(this.constantTable);
+  readonly opcodeDatabase = new OpcodeDatabase(this.expressionEvaluator);
+  readonly parser = new RGBDSParser(this.macroRegistry, this.routineRegistry, this.constantTable, this.expressionEvaluator, this.opcodeDatabase, this.sources);
+  readonly macroExpander = new MacroExpander(this.parser, this.expressionEvaluator);
+  readonly repeatExpander = new RepeatExpander(this.parser, this.expressionEvaluator);
+  readonly metricsEngine = new MetricsEngine(this.macroRegistry, this.macroExpander, this.repeatExpander, this.expressionEvaluator, this.opcodeDatabase);
+  readonly instructionEncoder = new InstructionEncoder(this.opcodeDatabase, this.expressionEvaluator);
+  readonly cycleDisplay = new CycleDisplay();
+  readonly loopAnalyzer = new LoopAnalyzer(this.expressionEvaluator);
+  readonly flagAnalyzer = new FlagAnalyzer();
+  readonly controlFlowAnalyzer = new ControlFlowAnalyzer(this.loopAnalyzer, this.flagAnalyzer);
+  readonly symbolIndex = new SymbolIndex(this.parser, this.metricsEngine, this.opcodeDatabase);
+  readonly sectionUsageAnalyzer = new SectionUsageAnalyzer(this.parser, this.metricsEngine);
+  readonly routineIndex = new RoutineIndex(this.parser, this.metricsEngine, this.controlFlowAnalyzer);
+  readonly registerAnalyzer = new RegisterAnalyzer(this.routineIndex, this.routineRegistry);
+  readonly stackAnalyzer = new StackAnalyzer(this.routineIndex, this.expressionEvaluator);
+  readonly budgetAnalyzer = new BudgetAnalyzer(this.routineIndex, this.controlFlowAnalyzer, this.cycleDisplay);
+  readonly diagnosticsAnalyzer = new DiagnosticsAnalyzer(this.parser, this.symbolIndex, this.repeatExpander, this.expressionEvaluator, this.opcodeDatabase);
+  readonly peepholeOptimizer = new PeepholeOptimizer(this.parser, this.expressionEvaluator, this.opcodeDatabase);
+  readonly linkerFiles = new LinkerFiles();
+
+  private options: ProjectOptions;
+
+  constructor(options: Partial<ProjectOptions> = {}) {
+    this.options = { metrics: DEFAULT_METRICS_OPTIONS, budgets: DEFAULT_BUDGET_PROFILES, includePaths: [], farCalls: {}, ...options };
+    this.applyOptions();
+  }
+
+  getOptions(): ProjectOptions {
+    return this.options;
+  }
+
+  // Include paths and far calls change how files parse; index them again afterwards
+  setOptions(options: Partial<ProjectOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.applyOptions();
+  }
+
+  // Forget every file; predefined symbols (setPredefined) are kept, and cached sources are only
+  // read again if they changed on disk
+  clear(): void {
+    this.parser.clearAll();
+    this.symbolIndex.clear();
+    this.sectionUsageAnalyzer.clear();
+    this.routineIndex.clear();
+    this.sources.invalidateAll();
+  }
+
+  // Routines, symbols and sections of a file, so other files can refer to them
+  indexFile(filePath: string, lines: string[]): void {
+    this.constantTable.removeFile(filePath);
+    this.routineRegistry.removeFile(filePath);
+    this.parser.parseDocument(lines, path.dirname(filePath), filePath);
+    this.symbolIndex.indexFile(filePath, lines, this.options.metrics);
+    this.sectionUsageAnalyzer.indexFile(filePath, lines, this.options.metrics);
+    this.routineIndex.indexFile(filePath, lines, this.options.metrics);
+  }
+
+  // Reads a file and everything it includes without blocking, then indexes it
+  async loadFile(filePath: string): Promise<void> {
+    const lines = await this.sources.load(filePath);
+    if (!lines) {
+      this.removeFile(filePath);
+      return;
+    }
+    await this.sources.loadIncludes(filePath, lines);
+    this.indexFile(filePath, lines);
+  }
+
+  removeFile(filePath: string): void {
+    this.constantTable.removeFile(filePath);
+    this.routineRegistry.removeFile(filePath);
+    this.symbolIndex.removeFile(filePath);
+    this.sectionUsageAnalyzer.removeFile(filePath);
+    this.routineIndex.removeFile(filePath);
+  }
+
+  // A new file may be what an unresolved INCLUDE was looking for; returns the files indexed again
+  async fileCreated(filePath: string): Promise<string[]> {
+    this.sources.invalidate(filePath);
+    return this.reindex([filePath, ...this.sources.getUnresolvedIncluders()]);
+  }
+
+  // The file and those that include it are indexed again; the rest of the workspace is left alone
+  async fileChanged(filePath: string): Promise<string[]> {
+    this.sources.invalidate(filePath);
+    return this.reindex([filePath, ...this.sources.getDependents(filePath)]);
+  }
+
+  async fileDeleted(filePath: string): Promise<string[]> {
+    const dependents = this.sources.getDependents(filePath);
+    this.removeFile(filePath);
+    this.sources.removeFile(filePath);
+    return this.reindex(dependents);
+  }
+
+  // Metrics of every line of a file on disk that assembles to something; the file is loaded and
+  // indexed first, so its includes and its own labels resolve even when nothing else was
+  async analyzeFile(filePath: string): Promise<LineMetrics[]> {
+    await this.loadFile(filePath);
+    const lines = this.sources.read(filePath);
+    if (!lines) {
+      throw new Error(`Cannot read ${filePath}`);
+    }
+    return this.analyze(filePath, lines).lines;
+  }
+
+  // Costs, cumulative totals, routines and budgets of a file's current contents; also brings the
+  // symbol index, section layout and routine index up to date with them
+  analyze(filePath: string, lines: string[], ranges: CountingRange[] = []): FileAnalysis {
+    const options = this.options.metrics;
+    // Like indexFile: "DEF x = x + 1" and REDEF start again from the values before this file
+    this.constantTable.removeFile(filePath);
+    this.parser.parseDocument(lines, path.dirname(filePath), filePath);
+    const parsedLines = lines.map((line, i) => this.parser.parseLine(line, i));
+
+    // Costs skip macro definitions and IF branches that aren't assembled
+    const costs = this.metricsEngine.computeDocumentCosts(parsedLines, options);
+    // Labels and sizes of unsaved edits, for the checks and encodings below and for symbol lookups
+    this.symbolIndex.indexFile(filePath, lines, options, { parsedLines, costs });
+    const doubleSpeedLines = this.cycleDisplay.findDoubleSpeedLines(parsedLines);
+    const layout = this.sectionUsageAnalyzer.updateFile(filePath, parsedLines, costs);
+    const offsets = new FileOffsets(parsedLines, costs);
+    const analyzed = Array.from(costs.lines, ([i, cost]) => ({ parsed: parsedLines[i], cost }));
+
+    const metrics: LineMetrics[] = [];
+    for (const [i, cost] of costs.lines) {
+      if (cost.bytes > 0 || cost.cycles > 0 || cost.opcode || cost.macroDef || cost.repeat) {
+        const parsed = parsedLines[i];
+        metrics.push({
+          lineNumber: i,
+          bytes: cost.bytes,
+          cycles: cost.cycles,
+          minCycles: cost.minCycles,
+          maxCycles: cost.maxCycles,
+          cumulativeBytes: 0,
+          cumulativeCycles: 0,
+          counting: false,
+          opcode: cost.opcode,
+          encoding: cost.opcode ? this.instructionEncoder.encode(parsed.instruction!, parsed.operands, cost.opcode, this.encodeContext(i, layout.addresses.get(i)?.address, offsets)) : undefined
+        });
+      }
+    }
+
+    // Best/worst path cycles per routine; the index keeps graphs without path analysis, so budgets
+    // can re-run it with callee cycles added
+    const routines = this.controlFlowAnalyzer.analyzeDocument(analyzed);
+    this.routineIndex.updateFile(filePath, this.controlFlowAnalyzer.buildRoutines(analyzed));
+    const budgets = this.budgetAnalyzer.analyzeFile(filePath, parsedLines, this.options.budgets, doubleSpeedLines);
+
+    const rangeTotals = this.addCumulativeTotals(metrics, ranges, routines.flatMap(routine => routine.loops));
+    return { filePath, parsedLines, costs, lines: metrics, doubleSpeedLines, layout, routines, budgets, rangeTotals };
+  }
+
+  private applyOptions(): void {
+    this.sources.setIncludePaths(this.options.includePaths);
+    this.parser.setFarCalls(this.options.farCalls);
+  }
+
+  private async reindex(filePaths: string[]): Promise<string[]> {
+    const unique = Array.from(new Set(filePaths));
+    for (const filePath of unique) {
+      await this.loadFile(filePath);
+    }
+    return unique;
+  }
+
+  // Running totals per counting range; without ranges the whole file is counted. Returns each range's total
+  private addCumulativeTotals(metrics: LineMetrics[], ranges: CountingRange[], loops: LoopInfo[]): RangeTotals[] {
+    const loopsByBranch = new Map<number, LoopInfo[]>();
+    for (const loop of loops) {
+      loopsByBranch.set(loop.branchLine, [...(loopsByBranch.get(loop.branchLine) || []), loop]);
+    }
+
+    const counters = (ranges.length > 0 ? ranges : [{ startLine: 0, endLine: undefined }])
+      .map(range => ({ startLine: range.startLine, endLine: range.endLine, bytes: 0, cycles: 0, minCycles: 0, maxCycles: 0 }));
+    for (const line of metrics) {
+      const active = counters.filter(counter => counter.startLine <= line.lineNumber && (counter.endLine === undefined || line.lineNumber <= counter.endLine));
+      for (const counter of active) {
+        counter.bytes += line.bytes;
+        counter.cycles += line.cycles;
+        counter.minCycles += line.minCycles;
+        counter.maxCycles += line.maxCycles;
+      }
+
+      // Nested ranges show the innermost (latest starting) one
+      const shown = active[active.length - 1];
+      line.counting = shown !== undefined;
+      line.cumulativeBytes = shown ? shown.bytes : 0;
+      line.cumulativeCycles = shown ? shown.cycles : 0;
+
+      // Loops were counted once; the remaining iterations show up after the closing branch
+      for (const loop of loopsByBranch.get(line.lineNumber) || []) {
+        const extra = this.options.metrics.assumeBranchTaken ? loop.extraMaxCycles : loop.extraMinCycles;
+        for (const counter of active) {
+          if (counter.startLine <= loop.headerLine) {
+            counter.cycles += extra;
+            counter.minCycles += loop.extraMinCycles;
+            counter.maxCycles += loop.extraMaxCycles;
+          }
+        }
+      }
+    }
+
+    return ranges.length > 0 ? counters : [];
+  }
+
+  // Label addresses from the linker's .sym file, else from sections with a known origin;
+  // distances to labels in the same block let jr be encoded in floating sections too
+  private encodeContext(lineNumber: number, pc: number | undefined, offsets: FileOffsets): EncodeContext {
+    return {
+      pc,
+      resolveLabel: name => {
+        const qualified = offsets.qualify(name, lineNumber);
+        const linked = this.linkerFiles.getSymbol(qualified);
+        if (linked) {
+          return linked.address;
+        }
+        for (const def of this.symbolIndex.getDefinitions(qualified)) {
+          const address = (def.kind === 'label' || def.kind === 'local') ? this.sectionUsageAnalyzer.getAddress(def.filePath, def.lineNumber) : undefined;
+          if (address) {
+            return address.address;
+          }
+        }
+        return undefined;
+      },
+      labelOffset: name => {
+        const target = offsets.labelLine(name, lineNumber);
+        return target !== undefined ? offsets.distance(lineNumber, target) : undefined;
+      }
+    };
+  }
+}
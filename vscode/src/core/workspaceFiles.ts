@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const SOURCE_EXTENSIONS = ['.asm', '.s', '.inc'];
+
+// Directories that were always skipped before excludes were configurable
+export const DEFAULT_EXCLUDES = ['node_modules', '.git', 'build', 'dist', 'obj', 'bin'];
+
+export interface WorkspaceFileOptions {
+  excludes: string[];     // gitignore-style globs relative to the root: "build", "tools/**", "/gfx/*.asm"
+  useGitignore: boolean;  // Also skip what the .gitignore files in the tree ignore
+}
+
+export const DEFAULT_WORKSPACE_FILE_OPTIONS: WorkspaceFileOptions = {
+  excludes: DEFAULT_EXCLUDES,
+  useGitignore: true
+};
+
+// One exclude glob or .gitignore line, relative to the directory it applies to
+interface IgnoreRule {
+  base: string;
+  pattern: RegExp;
+  negated: boolean;        // "!pattern" includes again what an earlier rule ignored
+  directoryOnly: boolean;  // "pattern/" only matches directories
+}
+
+// Assembly sources under a root, without excluded and git-ignored files
+export class WorkspaceFiles {
+  private excludeRules: IgnoreRule[];
+  private gitignoreRules: Map<string, IgnoreRule[]> = new Map();
+
+  constructor(private root: string, private options: WorkspaceFileOptions = DEFAULT_WORKSPACE_FILE_OPTIONS) {
+    this.excludeRules = this.compileRules(options.excludes, root);
+  }
+
+  // Sources in the given directories (the root by default), sorted; files named directly are kept
+  // even when excluded
+  async collect(paths: string[] = [this.root]): Promise<string[]> {
+    const files = new Set<string>();
+    for (const target of paths) {
+      const fullPath = path.resolve(this.root, target);
+      const stat = await fs.promises.stat(fullPath);
+      if (stat.isDirectory()) {
+        await this.loadAncestorGitignores(fullPath);
+        await this.collectDirectory(fullPath, files);
+      } else {
+        files.add(fullPath);
+      }
+    }
+    return Array.from(files).sort();
+  }
+
+  isSourceFile(filePath: string): boolean {
+    return SOURCE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+  }
+
+  // Whether the file or a directory above it is excluded; .gitignore files are those read by collect
+  isExcluded(filePath: string): boolean {
+    const relative = this.relative(this.root, filePath);
+    if (relative === undefined) {
+      return false;
+    }
+    const parts = relative.split('/');
+    let current = this.root;
+    for (let i = 0; i < parts.length; i++) {
+      current = path.join(current, parts[i]);
+      if (this.ignores(current, i < parts.length - 1)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async collectDirectory(dirPath: string, files: Set<string>): Promise<void> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    } catch (e) {
+      // Skip directories that can't be read
+      return;
+    }
+    if (this.options.useGitignore && entries.some(entry => entry.isFile() && entry.name === '.gitignore')) {
+      await this.loadGitignore(dirPath);
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        if (!this.ignores(fullPath, true)) {
+          await this.collectDirectory(fullPath, files);
+        }
+      } else if (entry.isFile() && this.isSourceFile(entry.name) && !this.ignores(fullPath, false)) {
+        files.add(fullPath);
+      }
+    }
+  }
+
+  // .gitignore files between the root and a directory collect starts from
+  private async loadAncestorGitignores(dirPath: string): Promise<void> {
+    const relative = this.relative(this.root, dirPath);
+    if (!this.options.useGitignore || relative === undefined) {
+      return;
+    }
+    let current = this.root;
+    for (const part of relative ? relative.split('/') : []) {
+      await this.loadGitignore(current);
+      current = path.join(current, part);
+    }
+  }
+
+  private async loadGitignore(dirPath: string): Promise<void> {
+    try {
+      const content = await fs.promises.readFile(path.join(dirPath, '.gitignore'), 'utf8');
+      this.gitignoreRules.set(dirPath, this.compileRules(content.split(/\r?\n/), dirPath));
+    } catch (e) {
+      this.gitignoreRules.delete(dirPath);
+    }
+  }
+
+  // Excludes first, then each .gitignore from the root down; within them the last matching rule wins
+  private ignores(fullPath: string, isDirectory: boolean): boolean {
+    if (this.matchRules(this.excludeRules, fullPath, isDirectory)) {
+      return true;
+    }
+    if (!this.options.useGitignore) {
+      return false;
+    }
+
+    let ignored = false;
+    let dir = path.dirname(fullPath);
+    const dirs: string[] = [];
+    while (this.relative(this.root, dir) !== undefined) {
+      dirs.unshift(dir);
+      if (dir === this.root) {
+        break;
+      }
+      dir = path.dirname(dir);
+    }
+    for (const base of dirs) {
+      ignored = this.matchRules(this.gitignoreRules.get(base) || [], fullPath, isDirectory, ignored);
+    }
+    return ignored;
+  }
+
+  private matchRules(rules: IgnoreRule[], fullPath: string, isDirectory: boolean, ignored = false): boolean {
+    for (const rule of rules) {
+      const relative = this.relative(rule.base, fullPath);
+      if (relative && (!rule.directoryOnly || isDirectory) && rule.pattern.test(relative)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  }
+
+  private compileRules(lines: string[], base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const line of lines) {
+      let glob = line.trim();
+      if (!glob || glob.startsWith('#')) {
+        continue;
+      }
+      const negated = glob.startsWith('!');
+      if (negated) {
+        glob = glob.slice(1);
+      }
+      const directoryOnly = glob.endsWith('/');
+      glob = glob.replace(/\/+$/, '');
+      // Without a slash a pattern matches at any depth, as in .gitignore
+      if (!glob.includes('/')) {
+        glob = `**/${glob}`;
+      }
+      rules.push({ base, pattern: this.globToRegExp(glob.replace(/^\//, '')), negated, directoryOnly });
+    }
+    return rules;
+  }
+
+  // "*" and "?" stay within one path segment, "**" spans any number of them
+  private globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (glob.startsWith('**/', i)) {
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (glob.startsWith('**', i)) {
+        source += '.*';
+        i += 1;
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '[' && glob.indexOf(']', i + 1) > i) {
+        const end = glob.indexOf(']', i + 1);
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^')}]`;
+        i = end;
+      } else {
+        source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${source}$`);
+  }
+
+  // Path below base with "/" separators, "" for base itself, undefined outside it
+  private relative(base: string, fullPath: string): string | undefined {
+    const relative = path.relative(base, fullPath);
+    if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      return undefined;
+    }
+    return relative.split(path.sep).join('/');
+  }
+}
@@ -1,58 +1,224 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { StartPointManager } from './services/startPointManager';
+import { Project, ProjectOptions } from './core/project';
+import { WorkspaceFiles } from './core/workspaceFiles';
+import { MeasurementRange, MeasurementRangeManager } from './services/measurementRangeManager';
 import { MetricsDecorationProvider } from './providers/metricsDecorationProvider';
-import { parser, routineRegistry } from './parser/rgbdsParser';
-
-let startPointManager: StartPointManager;
+import { SelectionMetricsStatusBar } from './providers/selectionStatusBar';
+import { MeasurementRangesTreeProvider } from './providers/measurementRangesTreeProvider';
+import { SymbolDefinitionProvider, SymbolReferenceProvider, AsmDocumentSymbolProvider, AsmWorkspaceSymbolProvider, resetIndexedVersions, resolveSymbolAt } from './providers/symbolProviders';
+import { getMetricsOptions, getBudgetProfiles, getIncludePaths, getFarCalls, getWorkspaceFileOptions, getPredefinedSymbols, getBuildVariants, getActiveVariant, getCycleDisplayMode, getLinkerFileSettings } from './services/settings';
+import { CycleDisplayMode } from './metrics/cycleDisplay';
+import { RoutineAnalysis } from './analysis/controlFlow';
+import { BankUsageReportProvider, BANK_USAGE_URI } from './providers/bankUsageReport';
+import { BankUsageTreeProvider } from './providers/bankUsageTree';
+import { AsmDiagnosticsProvider } from './providers/diagnosticsProvider';
+import { PeepholeCodeActionProvider } from './providers/peepholeCodeActions';
+import { BudgetCodeLensProvider } from './providers/budgetCodeLens';
+import { ParsedLine } from './parser/types';
+
+let project: Project;
+let rangeManager: MeasurementRangeManager;
 let decorationProvider: MetricsDecorationProvider;
+let selectionStatusBar: SelectionMetricsStatusBar;
+let rangesTreeProvider: MeasurementRangesTreeProvider;
+let variantStatusBarItem: vscode.StatusBarItem;
+let bankUsageReport: BankUsageReportProvider;
+let bankUsageTree: BankUsageTreeProvider;
+let diagnosticsProvider: AsmDiagnosticsProvider;
 let workspaceScanned = false;
+let workspaceFiles: WorkspaceFiles[] = [];
+let workspaceTask: Promise<void> = Promise.resolve();
+let linkerFilesGeneration = 0;
+const reportedAmbiguousLinkerFiles = new Set<string>();
+
+function getProjectOptions(): ProjectOptions {
+  return {
+    metrics: getMetricsOptions(),
+    budgets: getBudgetProfiles(),
+    includePaths: getIncludePaths(),
+    farCalls: getFarCalls()
+  };
+}
+
+// Scans and file changes run one after another, so a rescan's clear() never lands in the middle of
+// another scan; a failure is reported instead of stopping the ones queued after it
+function queueWorkspaceTask(task: () => Promise<void>): void {
+  workspaceTask = workspaceTask.then(task).catch(error => {
+    console.error('GB Assembly Metrics: indexing the workspace failed', error);
+    vscode.window.showErrorMessage(`GB Assembly Metrics: indexing the workspace failed: ${(error as Error).message}`);
+  });
+}
 
 // Scan all assembly files in the workspace to find routine definitions
 async function scanWorkspaceForRoutines(): Promise<void> {
   const workspaceFolders = vscode.workspace.workspaceFolders;
   if (!workspaceFolders) return;
 
-  // Clear existing routines before scanning
-  parser.clearAll();
-
-  for (const folder of workspaceFolders) {
-    await scanDirectoryForRoutines(folder.uri.fsPath);
+  // Clear existing routines and symbols before scanning
+  project.setOptions(getProjectOptions());
+  project.clear();
+  resetIndexedVersions();
+
+  // Skips gbAsmMetrics.exclude and, unless turned off, what .gitignore ignores
+  workspaceFiles = workspaceFolders.map(folder => new WorkspaceFiles(folder.uri.fsPath, getWorkspaceFileOptions()));
+  // A file that fails to load or index is skipped and reported; the rest of the folder is still scanned
+  const failed: string[] = [];
+  for (const files of workspaceFiles) {
+    let filePaths: string[];
+    try {
+      filePaths = await files.collect();
+    } catch (e) {
+      continue;  // Skip folders that can't be read
+    }
+    for (const filePath of filePaths) {
+      try {
+        await project.loadFile(filePath);
+      } catch (error) {
+        console.error(`GB Assembly Metrics: indexing ${filePath} failed`, error);
+        failed.push(vscode.workspace.asRelativePath(filePath));
+      }
+    }
+  }
+  if (failed.length > 0) {
+    vscode.window.showWarningMessage(`GB Assembly Metrics: ${failed.length} file${failed.length === 1 ? '' : 's'} could not be indexed (${failed.slice(0, 3).join(', ')}${failed.length > 3 ? ', ...' : ''}); see the developer console.`);
   }
 
   workspaceScanned = true;
-  console.log(`Scanned workspace, found ${routineRegistry.getAll().length} routines with documentation`);
+  refreshWorkspaceViews();
+  console.log(`Scanned workspace, found ${project.routineRegistry.getAll().length} routines with documentation and ${project.symbolIndex.getAllDefinitions().length} symbols`);
+}
+
+type FileChange = 'created' | 'changed' | 'deleted';
+
+// Index again only the files the watcher reported and the files that include them
+async function applyFileChanges(changes: Map<string, FileChange>): Promise<void> {
+  for (const [filePath, change] of changes) {
+    if (change === 'created') {
+      await project.fileCreated(filePath);
+    } else if (change === 'deleted') {
+      await project.fileDeleted(filePath);
+    } else {
+      await project.fileChanged(filePath);
+    }
+  }
+  resetIndexedVersions();
+  refreshWorkspaceViews();
+}
+
+// Bank usage and the active editor's problems depend on what the other files define
+function refreshWorkspaceViews(): void {
+  bankUsageReport?.refresh();
+  bankUsageTree?.refresh();
+
+  // Names from other files are known now
+  const editor = vscode.window.activeTextEditor;
+  const analysis = editor && isGBZ80Document(editor.document) ? decorationProvider.getAnalysis(editor.document) : undefined;
+  if (editor && analysis) {
+    diagnosticsProvider?.update(editor.document, analysis);
+  }
 }
 
-// Recursively scan a directory for assembly files
-async function scanDirectoryForRoutines(dirPath: string): Promise<void> {
+// Read the .sym and .map files of the last build; without them addresses and sizes come from the source.
+// Both are read before anything is replaced, and only the latest of overlapping loads is kept
+async function loadLinkerFiles(): Promise<void> {
+  const generation = ++linkerFilesGeneration;
+  const settings = getLinkerFileSettings();
+  const symFile = await findLinkerFile(settings.symFile, '.sym');
+  const mapFile = await findLinkerFile(settings.mapFile, '.map', symFile);
+  let symContent: string | undefined;
+  let mapContent: string | undefined;
   try {
-    const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+    symContent = symFile ? await fs.promises.readFile(symFile, 'utf8') : undefined;
+    mapContent = mapFile ? await fs.promises.readFile(mapFile, 'utf8') : undefined;
+  } catch (e) {
+    // The build may be rewriting the file; the watcher reloads it once it is done
+  }
+  if (generation !== linkerFilesGeneration) {
+    return;
+  }
 
-    for (const entry of entries) {
-      const fullPath = path.join(dirPath, entry.name);
+  project.linkerFiles.clear();
+  if (symFile && symContent !== undefined) {
+    project.linkerFiles.loadSymFile(symFile, symContent);
+  }
+  if (mapFile && mapContent !== undefined) {
+    project.linkerFiles.loadMapFile(mapFile, mapContent);
+  }
+  bankUsageReport?.refresh();
+  bankUsageTree?.refresh();
+}
 
-      if (entry.isDirectory()) {
-        // Skip common non-source directories
-        if (!['node_modules', '.git', 'build', 'dist', 'obj', 'bin'].includes(entry.name)) {
-          await scanDirectoryForRoutines(fullPath);
-        }
-      } else if (entry.isFile()) {
-        const ext = path.extname(entry.name).toLowerCase();
-        if (['.asm', '.s', '.inc'].includes(ext)) {
-          try {
-            const content = fs.readFileSync(fullPath, 'utf8');
-            const lines = content.split(/\r?\n/);
-            parser.parseDocument(lines, path.dirname(fullPath), fullPath);
-          } catch (e) {
-            // Skip files that can't be read
-          }
-        }
-      }
+function reloadLinkerFiles(): void {
+  loadLinkerFiles().catch(error => {
+    console.error('GB Assembly Metrics: loading the linker files failed', error);
+  });
+}
+
+interface LinkerFileCandidate {
+  filePath: string;
+  stem: string;     // File name without the extension, lower case
+  hasRom: boolean;  // A .gb/.gbc with the same name sits next to it
+}
+
+// The configured path relative to the first workspace folder, or the file with the extension in the
+// folder or its build directory. With several (one per ROM target), the one named like the file
+// already picked (the .sym for the .map), the workspace folder or a ROM next to it is used; if that
+// still leaves a choice, none is, and the setting has to say which
+async function findLinkerFile(configured: string, ext: string, pairedWith?: string): Promise<string | undefined> {
+  const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (configured) {
+    const fullPath = root ? path.resolve(root, configured) : configured;
+    return await fileExists(fullPath) ? fullPath : undefined;
+  }
+  if (!root) {
+    return undefined;
+  }
+
+  const candidates: LinkerFileCandidate[] = [];
+  for (const dir of [root, path.join(root, 'build')]) {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(dir);
+    } catch (e) {
+      continue;  // No such directory
     }
+    for (const name of names.filter(candidate => path.extname(candidate).toLowerCase() === ext)) {
+      const stem = path.basename(name, path.extname(name)).toLowerCase();
+      const hasRom = names.some(rom => ['.gb', '.gbc'].includes(path.extname(rom).toLowerCase()) && path.basename(rom, path.extname(rom)).toLowerCase() === stem);
+      candidates.push({ filePath: path.join(dir, name), stem, hasRom });
+    }
+  }
+
+  const pairedStem = pairedWith ? path.basename(pairedWith, path.extname(pairedWith)).toLowerCase() : undefined;
+  const preferences = [
+    () => true,
+    (candidate: LinkerFileCandidate) => candidate.stem === pairedStem,
+    (candidate: LinkerFileCandidate) => candidate.stem === path.basename(root).toLowerCase(),
+    (candidate: LinkerFileCandidate) => candidate.hasRom
+  ];
+  for (const prefer of preferences) {
+    const matches = candidates.filter(prefer);
+    if (matches.length === 1) {
+      return matches[0].filePath;
+    }
+  }
+
+  if (candidates.length > 1 && !reportedAmbiguousLinkerFiles.has(ext)) {
+    reportedAmbiguousLinkerFiles.add(ext);
+    const setting = ext === '.sym' ? 'symFile' : 'mapFile';
+    vscode.window.showInformationMessage(`Several ${ext} files were found; set gbAsmMetrics.${setting} to the one to use.`);
+  }
+  return undefined;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.promises.access(filePath);
+    return true;
   } catch (e) {
-    // Skip directories that can't be read
+    return false;
   }
 }
 
@@ -60,11 +226,84 @@ export function activate(context: vscode.ExtensionContext) {
   console.log('GB Assembly Metrics extension activated');
 
   // Initialize services
-  startPointManager = new StartPointManager();
-  decorationProvider = new MetricsDecorationProvider(startPointManager);
+  project = new Project(getProjectOptions());
+  rangeManager = new MeasurementRangeManager(context.workspaceState);
+  decorationProvider = new MetricsDecorationProvider(project, rangeManager);
+  selectionStatusBar = new SelectionMetricsStatusBar(project, decorationProvider);
+  rangesTreeProvider = new MeasurementRangesTreeProvider(project, rangeManager, decorationProvider);
+  bankUsageReport = new BankUsageReportProvider(project);
+  bankUsageTree = new BankUsageTreeProvider(project);
+  diagnosticsProvider = new AsmDiagnosticsProvider(project);
+
+  // Predefined symbols must be in place before the scan evaluates IF blocks
+  project.constantTable.setPredefined(getPredefinedSymbols());
 
   // Scan workspace for routines on activation
-  scanWorkspaceForRoutines();
+  queueWorkspaceTask(scanWorkspaceForRoutines);
+  reloadLinkerFiles();
+
+  // Build variant picker, shown in the status bar when variants are configured
+  variantStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+  variantStatusBarItem.command = 'gbAsmMetrics.selectBuildVariant';
+  updateVariantStatusBar();
+  context.subscriptions.push(variantStatusBarItem);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gbAsmMetrics.selectBuildVariant', async () => {
+      const variants = getBuildVariants();
+      const items: vscode.QuickPickItem[] = [
+        { label: '(none)', description: 'Only gbAsmMetrics.predefinedSymbols' },
+        ...Object.entries(variants).map(([name, symbols]) => ({ label: name, description: symbols.join(' ') }))
+      ];
+      if (items.length === 1) {
+        vscode.window.showInformationMessage('No build variants configured. Add them to the gbAsmMetrics.buildVariants setting.');
+        return;
+      }
+
+      const picked = await vscode.window.showQuickPick(items, { placeHolder: `Build variant (current: ${getActiveVariant() || 'none'})` });
+      if (picked) {
+        const config = vscode.workspace.getConfiguration('gbAsmMetrics');
+        await config.update('activeVariant', picked.label === '(none)' ? '' : picked.label, vscode.ConfigurationTarget.Workspace);
+      }
+    })
+  );
+
+  // Bank usage report, a virtual markdown document opened in the preview
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(BankUsageReportProvider.scheme, bankUsageReport),
+    vscode.commands.registerCommand('gbAsmMetrics.showBankUsage', async () => {
+      // Pick up unsaved edits in open editors
+      for (const document of vscode.workspace.textDocuments) {
+        if (isGBZ80Document(document) && document.isDirty) {
+          project.sectionUsageAnalyzer.indexFile(document.uri.fsPath, document.getText().split(/\r?\n/), getMetricsOptions());
+        }
+      }
+      bankUsageReport.refresh();
+      await vscode.commands.executeCommand('markdown.showPreview', BANK_USAGE_URI);
+    })
+  );
+
+  // Banks and sections in the explorer, from the linker's map file when there is one
+  context.subscriptions.push(
+    vscode.window.createTreeView('gbAsmMetrics.bankUsage', { treeDataProvider: bankUsageTree })
+  );
+
+  // T-cycles, M-cycles or microseconds everywhere cycle counts are shown
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gbAsmMetrics.selectCycleDisplay', async () => {
+      const items: (vscode.QuickPickItem & { mode: CycleDisplayMode })[] = [
+        { label: 'T-cycles', description: '4 per nop, as in the opcode tables', mode: 't-cycles' },
+        { label: 'M-cycles', description: '1 per nop', mode: 'm-cycles' },
+        { label: 'Microseconds', description: 'Wall-clock time, halved in "; @doublespeed" code', mode: 'microseconds' }
+      ];
+      const current = getCycleDisplayMode();
+      const picked = await vscode.window.showQuickPick(items, { placeHolder: `Cycle display (current: ${items.find(item => item.mode === current)!.label})` });
+      if (picked) {
+        const config = vscode.workspace.getConfiguration('gbAsmMetrics');
+        await config.update('cycleDisplay', picked.mode, vscode.ConfigurationTarget.Global);
+      }
+    })
+  );
 
   // Register commands
   context.subscriptions.push(
@@ -72,17 +311,82 @@ export function activate(context: vscode.ExtensionContext) {
       const editor = vscode.window.activeTextEditor;
       if (editor && isGBZ80Document(editor.document)) {
         const line = editor.selection.active.line;
-        startPointManager.toggleStartPoint(editor.document.uri, line);
+        rangeManager.toggleStartPoint(editor.document.uri, line);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gbAsmMetrics.toggleEndPoint', () => {
+      const editor = vscode.window.activeTextEditor;
+      if (editor && isGBZ80Document(editor.document)) {
+        const line = editor.selection.active.line;
+        rangeManager.toggleEndPoint(editor.document.uri, line);
       }
     })
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand('gbAsmMetrics.clearAllStartPoints', () => {
-      startPointManager.clearAll();
+      rangeManager.clearAll();
     })
   );
 
+  // Named range over the selected lines
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gbAsmMetrics.addMeasurementRange', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || !isGBZ80Document(editor.document)) {
+        return;
+      }
+      const selection = editor.selection;
+      const endLine = selection.end.character === 0 && selection.end.line > selection.start.line
+        ? selection.end.line - 1
+        : selection.end.line;
+      const name = await vscode.window.showInputBox({
+        prompt: 'Name for the measurement range',
+        placeHolder: 'e.g. vblank handler',
+        value: `Lines ${selection.start.line + 1}-${endLine + 1}`
+      });
+      if (name) {
+        rangeManager.addRange(editor.document.uri, name, selection.start.line, endLine);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gbAsmMetrics.renameMeasurementRange', async (element?: { range: MeasurementRange }) => {
+      if (!element) {
+        return;
+      }
+      const name = await vscode.window.showInputBox({ prompt: 'New name for the measurement range', value: element.range.name });
+      if (name) {
+        rangeManager.renameRange(element.range.id, name);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gbAsmMetrics.removeMeasurementRange', (element?: { range: MeasurementRange }) => {
+      if (element) {
+        rangeManager.removeRange(element.range.id);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gbAsmMetrics.revealMeasurementRange', async (range: MeasurementRange) => {
+      const editor = await vscode.window.showTextDocument(vscode.Uri.parse(range.uri));
+      const end = range.endLine ?? range.startLine;
+      editor.selection = new vscode.Selection(range.startLine, 0, range.startLine, 0);
+      editor.revealRange(new vscode.Range(range.startLine, 0, end, 0), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.window.createTreeView('gbAsmMetrics.measurementRanges', { treeDataProvider: rangesTreeProvider })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('gbAsmMetrics.toggleExpand', () => {
       const editor = vscode.window.activeTextEditor;
@@ -101,19 +405,21 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
-  // Listen for start point changes
+  // Listen for measurement range changes
   context.subscriptions.push(
-    startPointManager.onDidChange(() => {
+    rangeManager.onDidChange(() => {
       const editor = vscode.window.activeTextEditor;
       if (editor && isGBZ80Document(editor.document)) {
         decorationProvider.updateDecorations(editor);
       }
+      rangesTreeProvider.refresh();
     })
   );
 
   // Listen for document changes
   context.subscriptions.push(
     vscode.workspace.onDidChangeTextDocument(event => {
+      rangeManager.handleDocumentChange(event);
       const editor = vscode.window.activeTextEditor;
       if (editor && editor.document === event.document && isGBZ80Document(event.document)) {
         decorationProvider.updateDecorations(editor);
@@ -121,11 +427,42 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Drop problems of closed files, only open documents are checked; includes are read from disk again
+  context.subscriptions.push(
+    vscode.workspace.onDidCloseTextDocument(document => {
+      diagnosticsProvider.remove(document.uri);
+      project.sources.closeDocument(document.uri.fsPath);
+    })
+  );
+
   // Listen for active editor changes
   context.subscriptions.push(
     vscode.window.onDidChangeActiveTextEditor(editor => {
       if (editor && isGBZ80Document(editor.document)) {
         decorationProvider.updateDecorations(editor);
+      } else {
+        selectionStatusBar.update(undefined);
+      }
+    })
+  );
+
+  // Refresh the status bar once the metrics for the active document are recomputed
+  context.subscriptions.push(
+    decorationProvider.onDidUpdate(uri => {
+      const editor = vscode.window.activeTextEditor;
+      if (editor && editor.document.uri.toString() === uri.toString()) {
+        selectionStatusBar.update(editor);
+        // Unknown-name checks would be premature before the workspace scan
+        const analysis = decorationProvider.getAnalysis(editor.document);
+        if (workspaceScanned && analysis) {
+          diagnosticsProvider.update(editor.document, analysis);
+        }
+      }
+      if (rangeManager.getRanges(uri).length > 0) {
+        rangesTreeProvider.refresh();
+      }
+      if (!project.linkerFiles.hasMap()) {
+        bankUsageTree.refresh();
       }
     })
   );
@@ -133,11 +470,29 @@ export function activate(context: vscode.ExtensionContext) {
   // Listen for configuration changes
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('gbAsmMetrics.predefinedSymbols') ||
+          event.affectsConfiguration('gbAsmMetrics.buildVariants') ||
+          event.affectsConfiguration('gbAsmMetrics.activeVariant')) {
+        // Different symbols can change which IF branches define constants and macros
+        project.constantTable.setPredefined(getPredefinedSymbols());
+        updateVariantStatusBar();
+        queueWorkspaceTask(scanWorkspaceForRoutines);
+      } else if (event.affectsConfiguration('gbAsmMetrics.includePaths') ||
+                 event.affectsConfiguration('gbAsmMetrics.farCalls') ||
+                 event.affectsConfiguration('gbAsmMetrics.exclude') ||
+                 event.affectsConfiguration('gbAsmMetrics.useGitignore')) {
+        // Includes resolve differently, far calls cost differently or other files are scanned
+        queueWorkspaceTask(scanWorkspaceForRoutines);
+      }
+      if (event.affectsConfiguration('gbAsmMetrics.symFile') || event.affectsConfiguration('gbAsmMetrics.mapFile')) {
+        reloadLinkerFiles();
+      }
       if (event.affectsConfiguration('gbAsmMetrics')) {
         const editor = vscode.window.activeTextEditor;
         if (editor && isGBZ80Document(editor.document)) {
           decorationProvider.updateDecorations(editor);
         }
+        selectionStatusBar.update(editor);
       }
     })
   );
@@ -149,6 +504,8 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
+      selectionStatusBar.update(event.textEditor);
+
       // Detect potential gutter click (single click at column 0)
       if (event.kind === vscode.TextEditorSelectionChangeKind.Mouse &&
           event.selections.length === 1) {
@@ -188,35 +545,119 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
-  // Watch for assembly file changes to rescan workspace for routines
+  // Quick Fixes for peephole hints
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(
+      { language: 'gbz80', scheme: 'file' },
+      new PeepholeCodeActionProvider(diagnosticsProvider),
+      { providedCodeActionKinds: PeepholeCodeActionProvider.providedCodeActionKinds }
+    )
+  );
+
+  // Worst-case cycles against "; @budget" profiles above annotated routines
+  const budgetCodeLens = new BudgetCodeLensProvider(project, decorationProvider);
+  context.subscriptions.push(
+    budgetCodeLens,
+    vscode.languages.registerCodeLensProvider({ language: 'gbz80', scheme: 'file' }, budgetCodeLens)
+  );
+
+  // Register go-to-definition and find-references for labels, macros and constants
+  context.subscriptions.push(
+    vscode.languages.registerDefinitionProvider(
+      { language: 'gbz80', scheme: 'file' },
+      new SymbolDefinitionProvider(project)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.languages.registerReferenceProvider(
+      { language: 'gbz80', scheme: 'file' },
+      new SymbolReferenceProvider(project)
+    )
+  );
+
+  // Register the document outline and Ctrl+T workspace symbol search
+  context.subscriptions.push(
+    vscode.languages.registerDocumentSymbolProvider(
+      { language: 'gbz80', scheme: 'file' },
+      new AsmDocumentSymbolProvider(project)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.languages.registerWorkspaceSymbolProvider(new AsmWorkspaceSymbolProvider(project))
+  );
+
+  // Watch for assembly file changes to re-index the affected files
   const fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.{asm,s,inc}');
 
-  // Debounce rescan to avoid excessive scanning
+  // Collect changes for a moment, e.g. while a branch is checked out
+  const pendingChanges = new Map<string, FileChange>();
   let rescanTimeout: NodeJS.Timeout | undefined;
-  const debouncedRescan = () => {
+  const queueChange = (change: FileChange) => (uri: vscode.Uri) => {
+    if (workspaceFiles.some(files => files.isExcluded(uri.fsPath))) {
+      return;
+    }
+    // A file created and then written is still new
+    if (!(change === 'changed' && pendingChanges.get(uri.fsPath) === 'created')) {
+      pendingChanges.set(uri.fsPath, change);
+    }
     if (rescanTimeout) {
       clearTimeout(rescanTimeout);
     }
     rescanTimeout = setTimeout(() => {
-      scanWorkspaceForRoutines();
+      const changes = new Map(pendingChanges);
+      pendingChanges.clear();
+      queueWorkspaceTask(() => applyFileChanges(changes));
     }, 500);
   };
 
-  fileWatcher.onDidCreate(debouncedRescan);
-  fileWatcher.onDidDelete(debouncedRescan);
-  fileWatcher.onDidChange(debouncedRescan);
+  fileWatcher.onDidCreate(queueChange('created'));
+  fileWatcher.onDidDelete(queueChange('deleted'));
+  fileWatcher.onDidChange(queueChange('changed'));
 
   context.subscriptions.push(fileWatcher);
 
+  // Reload the linker output whenever the build rewrites it
+  const linkerWatcher = vscode.workspace.createFileSystemWatcher('**/*.{sym,map}');
+  let reloadTimeout: NodeJS.Timeout | undefined;
+  const debouncedReload = () => {
+    if (reloadTimeout) {
+      clearTimeout(reloadTimeout);
+    }
+    reloadTimeout = setTimeout(reloadLinkerFiles, 500);
+  };
+
+  linkerWatcher.onDidCreate(debouncedReload);
+  linkerWatcher.onDidDelete(debouncedReload);
+  linkerWatcher.onDidChange(debouncedReload);
+
+  context.subscriptions.push(linkerWatcher);
+
   // Cleanup
   context.subscriptions.push({
     dispose: () => {
-      startPointManager.dispose();
+      rangeManager.dispose();
       decorationProvider.dispose();
+      selectionStatusBar.dispose();
+      rangesTreeProvider.dispose();
+      bankUsageReport.dispose();
+      bankUsageTree.dispose();
+      diagnosticsProvider.dispose();
     }
   });
 }
 
+function updateVariantStatusBar(): void {
+  if (Object.keys(getBuildVariants()).length === 0) {
+    variantStatusBarItem.hide();
+    return;
+  }
+  variantStatusBarItem.text = `$(versions) ${getActiveVariant() || 'no variant'}`;
+  variantStatusBarItem.tooltip = 'GB Assembly Metrics: select build variant';
+  variantStatusBarItem.show();
+}
+
 function isGBZ80Document(document: vscode.TextDocument): boolean {
   // Check by language ID or file extension
   if (document.languageId === 'gbz80') {
@@ -228,27 +669,74 @@ function isGBZ80Document(document: vscode.TextDocument): boolean {
 }
 
 function createHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
-  const { opcodeDatabase } = require('./opcodes/opcodeData');
-
   const line = document.lineAt(position.line);
-  const parsed = parser.parseLine(line.text, position.line);
+  const parsed = project.parser.parseLine(line.text, position.line);
 
-  if (!parsed.instruction) {
+  if (!parsed.instruction && !parsed.label) {
     return undefined;
   }
 
   const md = new vscode.MarkdownString();
 
+  // Show the value of a constant under the cursor (e.g. NUM_PARTY, rLCDC)
+  const wordRange = document.getWordRangeAtPosition(position, /[A-Za-z_][\w#@]*/);
+  if (wordRange) {
+    const word = document.getText(wordRange);
+    const constant = project.constantTable.get(word);
+    if (constant) {
+      md.appendMarkdown(`## ${constant.name}\n\n`);
+      if (constant.kind === 'EQUS') {
+        md.appendMarkdown(`**Value:** \`"${constant.stringValue}"\`\n\n`);
+      } else {
+        const value = project.expressionEvaluator.resolveConstant(constant.name);
+        if (value !== undefined) {
+          const hex = (value >>> 0).toString(16).toUpperCase().padStart(value > 0xFF || value < 0 ? 4 : 2, '0');
+          md.appendMarkdown(`**Value:** ${value} (\`$${hex}\`)\n\n`);
+        } else {
+          md.appendMarkdown(`**Value:** \`${constant.expression}\` (unresolved)\n\n`);
+        }
+      }
+      if (constant.filePath) {
+        const relativePath = vscode.workspace.asRelativePath(constant.filePath);
+        md.appendMarkdown(`*${constant.kind} in ${relativePath}:${constant.lineNumber + 1}*\n\n`);
+      } else {
+        md.appendMarkdown(`*Predefined symbol (settings or build variant)*\n\n`);
+      }
+    }
+  }
+
+  // Address of a label under the cursor: where the linker put it, else where its section's fixed origin puts it
+  const symbol = resolveSymbolAt(project, document, position);
+  const labels = symbol ? project.symbolIndex.getDefinitions(symbol).filter(def => def.kind === 'label' || def.kind === 'local') : [];
+  for (const label of labels) {
+    const linked = project.linkerFiles.getSymbol(label.name);
+    if (linked) {
+      const source = path.basename(project.linkerFiles.getSymPath() ?? '');
+      md.appendMarkdown(`**${label.name}:** \`${project.linkerFiles.formatAddress(linked.bank, linked.address)}\` (from ${source})\n\n`);
+      continue;
+    }
+    const address = project.sectionUsageAnalyzer.getAddress(label.filePath, label.lineNumber);
+    if (address) {
+      md.appendMarkdown(`**${label.name}:** \`${project.sectionUsageAnalyzer.formatAddress(address)}\` in "${address.section}"\n\n`);
+    }
+  }
+
+  // "; @align N" check on this line
+  const alignment = project.sectionUsageAnalyzer.getAlignmentChecks(document.uri.fsPath).find(check => check.lineNumber === position.line);
+  if (alignment) {
+    md.appendMarkdown(`**Alignment:** ${project.sectionUsageAnalyzer.describeAlignment(alignment)}\n\n`);
+  }
+
   // Check if this is a call/jump instruction that references a documented routine
   const callInstructions = ['CALL', 'JP', 'JR', 'RST'];
-  const isCallInstruction = callInstructions.includes(parsed.instruction.toUpperCase());
+  const isCallInstruction = callInstructions.includes((parsed.instruction || '').toUpperCase());
 
   if (isCallInstruction && parsed.operands.length > 0) {
     // Get the target label (last operand for conditional calls)
     const targetLabel = parsed.operands[parsed.operands.length - 1];
 
     // Check if this is a documented routine
-    const routine = routineRegistry.get(targetLabel);
+    const routine = project.routineRegistry.get(targetLabel);
     if (routine && (routine.arguments.length > 0 || routine.description)) {
       md.appendMarkdown(`## ${targetLabel}\n\n`);
 
@@ -279,7 +767,7 @@ function createHover(document: vscode.TextDocument, position: vscode.Position):
     const memMatch = operand.match(/\[([a-zA-Z_]\w*)/);
     if (memMatch) {
       const labelName = memMatch[1];
-      const routine = routineRegistry.get(labelName);
+      const routine = project.routineRegistry.get(labelName);
       if (routine && (routine.arguments.length > 0 || routine.description)) {
         md.appendMarkdown(`## ${labelName}\n\n`);
 
@@ -308,7 +796,7 @@ function createHover(document: vscode.TextDocument, position: vscode.Position):
   // Check if this is a predef call with a documented routine
   if (parsed.isPredefCall && parsed.operands.length > 0) {
     const targetLabel = parsed.operands[0];
-    const routine = routineRegistry.get(targetLabel);
+    const routine = project.routineRegistry.get(targetLabel);
     if (routine && (routine.arguments.length > 0 || routine.description)) {
       md.appendMarkdown(`## ${targetLabel} (PREDEF)\n\n`);
 
@@ -337,9 +825,8 @@ function createHover(document: vscode.TextDocument, position: vscode.Position):
   const metrics = decorationProvider.getLineMetrics(document.uri, position.line);
   const opcode = metrics?.opcode;
 
-  if (opcode) {
-    const isCB = opcodeDatabase.isCBPrefixedInstruction(parsed.instruction);
-    const hexBytes = opcodeDatabase.getOpcodeHex(opcode, isCB);
+  if (opcode && parsed.instruction) {
+    const hexBytes = metrics.encoding ?? '';
 
     // Add separator if we already have routine info
     if (md.value.length > 0) {
@@ -350,10 +837,13 @@ function createHover(document: vscode.TextDocument, position: vscode.Position):
     md.appendMarkdown(`**Opcode:** \`${hexBytes}\`\n\n`);
     md.appendMarkdown(`**Size:** ${opcode.bytes} byte(s)\n\n`);
 
+    const mode = getCycleDisplayMode();
+    const doubleSpeed = decorationProvider.isDoubleSpeed(document.uri, position.line);
+    const speed = doubleSpeed ? ' (double speed)' : '';
     if (opcode.cycles.length > 1) {
-      md.appendMarkdown(`**Cycles:** ${opcode.cycles[0]} (branch taken) / ${opcode.cycles[1]} (not taken)\n\n`);
+      md.appendMarkdown(`**Cycles:** ${project.cycleDisplay.describe(opcode.cycles[0], mode, doubleSpeed)} (branch taken) / ${project.cycleDisplay.describe(opcode.cycles[1], mode, doubleSpeed)} (not taken)${speed}\n\n`);
     } else {
-      md.appendMarkdown(`**Cycles:** ${opcode.cycles[0]}\n\n`);
+      md.appendMarkdown(`**Cycles:** ${project.cycleDisplay.describe(opcode.cycles[0], mode, doubleSpeed)}${speed}\n\n`);
     }
 
     md.appendMarkdown(`### Flags Affected\n\n`);
@@ -366,6 +856,17 @@ function createHover(document: vscode.TextDocument, position: vscode.Position):
     md.appendMarkdown(`*- = unchanged, 0 = reset, 1 = set, letter = affected*`);
   }
 
+  // Best/worst path cycles on the routine label and on each of its exits
+  const routine = decorationProvider.getRoutineAt(document.uri, position.line);
+  if (routine) {
+    appendFlagSources(md, routine, position.line);
+    appendRoutinePaths(md, routine, position.line, decorationProvider.isDoubleSpeed(document.uri, routine.startLine));
+  }
+  appendRegisterUsage(md, parsed, routine, position.line);
+  if (routine && position.line === routine.startLine) {
+    appendStackUsage(md, routine);
+  }
+
   // Return hover only if we have content
   if (md.value.length > 0) {
     return new vscode.Hover(md);
@@ -374,6 +875,112 @@ function createHover(document: vscode.TextDocument, position: vscode.Position):
   return undefined;
 }
 
+// Where each flag read by this line was set, on every path into it
+function appendFlagSources(md: vscode.MarkdownString, routine: RoutineAnalysis, line: number): void {
+  const uses = routine.flags.uses.filter(use => use.line === line);
+  if (uses.length === 0) {
+    return;
+  }
+
+  if (md.value.length > 0) {
+    md.appendMarkdown(`---\n\n`);
+  }
+  md.appendMarkdown(`### Flags read\n\n`);
+  for (const use of uses) {
+    const sources = use.sources.map(source => project.flagAnalyzer.describeSource(routine.graph, source));
+    md.appendMarkdown(`**${use.flag}** set by ${sources.join(' or ')}\n\n`);
+  }
+}
+
+// Inputs and clobbers on a routine label, and what a called routine clobbers on the call
+function appendRegisterUsage(md: vscode.MarkdownString, parsed: ParsedLine, routine: RoutineAnalysis | undefined, line: number): void {
+  const mnemonic = (parsed.instruction || '').toUpperCase();
+  const name = routine && line === routine.startLine
+    ? routine.name
+    : parsed.isPredefCall ? parsed.operands[0] : ['CALL', 'JP', 'JR'].includes(mnemonic) ? parsed.operands[parsed.operands.length - 1] : undefined;
+  const summary = name ? project.registerAnalyzer.getSummary(name.trim()) : undefined;
+  if (!summary) {
+    return;
+  }
+
+  if (md.value.length > 0) {
+    md.appendMarkdown(`---\n\n`);
+  }
+  md.appendMarkdown(`### ${summary.name} registers\n\n`);
+  md.appendMarkdown(`**Inputs:** ${project.registerAnalyzer.formatRegisters(summary.inputs)} | **Clobbers:** ${project.registerAnalyzer.formatRegisters(summary.clobbers)}\n\n`);
+  if (summary.preserved.size > 0) {
+    md.appendMarkdown(`**Preserved (push/pop):** ${project.registerAnalyzer.formatRegisters(summary.preserved)}\n\n`);
+  }
+  if (summary.unknownCalls.length > 0) {
+    md.appendMarkdown(`*Not counted: ${summary.unknownCalls.map(call => `\`${call}\``).join(', ')} (not found in the workspace)*\n\n`);
+  }
+}
+
+// Deepest stack use of the routine, callees included, and whether every ret is balanced
+function appendStackUsage(md: vscode.MarkdownString, routine: RoutineAnalysis): void {
+  const summary = project.stackAnalyzer.getSummary(routine.name);
+  if (!summary) {
+    return;
+  }
+
+  const deepest = summary.deepestLine !== undefined
+    ? ` at line ${summary.deepestLine + 1}${summary.deepestVia ? ` (inside \`${summary.deepestVia}\`)` : ''}`
+    : '';
+  md.appendMarkdown(`**Stack:** ${project.stackAnalyzer.formatDepth(summary)} max${deepest}, ${summary.balanced ? 'balanced' : '**unbalanced**'}\n\n`);
+  if (summary.unknownCalls.length > 0) {
+    md.appendMarkdown(`*Stack use not counted for: ${summary.unknownCalls.map(call => `\`${call}\``).join(', ')}*\n\n`);
+  }
+}
+
+function appendRoutinePaths(md: vscode.MarkdownString, routine: RoutineAnalysis, line: number, doubleSpeed: boolean): void {
+  const mode = getCycleDisplayMode();
+  const cycles = (value: number | undefined) => value !== undefined ? project.cycleDisplay.format(value, mode, doubleSpeed) : '?';
+  const range = (min: number, max: number) => project.cycleDisplay.formatRange(min, max, mode, doubleSpeed);
+  const exitLabels: { [kind: string]: string } = {
+    ret: 'ret', reti: 'reti', tailjump: 'jump out', indirect: 'indirect jump', fallthrough: 'falls through'
+  };
+
+  if (line === routine.startLine && routine.exits.length > 0) {
+    if (md.value.length > 0) {
+      md.appendMarkdown(`---\n\n`);
+    }
+    md.appendMarkdown(`### ${routine.name} paths\n\n`);
+    md.appendMarkdown(`**Best case:** ${cycles(routine.minCycles)} | **Worst case:** ${cycles(routine.maxCycles)}${doubleSpeed ? ' (double speed)' : ''}\n\n`);
+    md.appendMarkdown(`| Exit | Kind | Best | Worst |\n`);
+    md.appendMarkdown(`|:---|:---|---:|---:|\n`);
+    for (const exit of routine.exits) {
+      md.appendMarkdown(`| line ${exit.exitLine + 1} | ${exitLabels[exit.exitKind]} | ${cycles(exit.minCycles)} | ${cycles(exit.maxCycles)} |\n`);
+    }
+    md.appendMarkdown(`\n`);
+    return;
+  }
+
+  const loop = routine.loops.find(candidate => candidate.headerLine === line || candidate.branchLine === line);
+  if (loop) {
+    if (md.value.length > 0) {
+      md.appendMarkdown(`---\n\n`);
+    }
+    md.appendMarkdown(`### Loop (lines ${loop.headerLine + 1}-${loop.branchLine + 1})\n\n`);
+    if (loop.iterations !== undefined) {
+      const source = loop.source === 'annotation' ? '`@loop` annotation' : `counter \`${loop.counter}\``;
+      md.appendMarkdown(`**Iterations:** ${loop.iterations} (from ${source})\n\n`);
+    } else {
+      md.appendMarkdown(`**Iterations:** unknown, counted once. Add \`; @loop N\` to the loop header to set it.\n\n`);
+    }
+    md.appendMarkdown(`**Per iteration:** ${range(loop.iterationMinCycles, loop.iterationMaxCycles)} | **Total:** ${range(loop.totalMinCycles, loop.totalMaxCycles)}\n\n`);
+  }
+
+  const exit = routine.exits.find(candidate => candidate.exitLine === line);
+  if (exit) {
+    if (md.value.length > 0) {
+      md.appendMarkdown(`---\n\n`);
+    }
+    md.appendMarkdown(`### Path from ${routine.name}\n\n`);
+    md.appendMarkdown(`**Best case:** ${cycles(exit.minCycles)} via lines ${project.controlFlowAnalyzer.formatPath(routine.graph, exit.minPath)}\n\n`);
+    md.appendMarkdown(`**Worst case:** ${cycles(exit.maxCycles)} via lines ${project.controlFlowAnalyzer.formatPath(routine.graph, exit.maxPath)}\n\n`);
+  }
+}
+
 export function deactivate() {
   console.log('GB Assembly Metrics extension deactivated');
 }
@@ -0,0 +1,89 @@
+import { ParsedLine } from '../parser/types';
+
+// Cycle counts from the opcode tables are T-cycles at single speed
+export type CycleDisplayMode = 't-cycles' | 'm-cycles' | 'microseconds';
+
+// Single-speed CPU clock; CGB double speed runs the CPU (not the PPU) twice as fast
+const CPU_CLOCK_MHZ = 4.194304;
+
+const SUFFIXES: { [mode in CycleDisplayMode]: string } = {
+  't-cycles': 'c',
+  'm-cycles': 'M',
+  'microseconds': 'µs'
+};
+
+const UNIT_NAMES: { [mode in CycleDisplayMode]: string } = {
+  't-cycles': 'cycles',
+  'm-cycles': 'M-cycles',
+  'microseconds': 'µs'
+};
+
+// Shows T-cycle counts as T-cycles, M-cycles or wall-clock time, and tracks which code runs in double speed
+export class CycleDisplay {
+  // "12c", "3M", "2.86µs"
+  format(cycles: number, mode: CycleDisplayMode, doubleSpeed = false): string {
+    return `${this.convert(cycles, mode, doubleSpeed)}${SUFFIXES[mode]}`;
+  }
+
+  // "12-20c", or a single value when both ends are equal
+  formatRange(minCycles: number, maxCycles: number, mode: CycleDisplayMode, doubleSpeed = false): string {
+    if (minCycles === maxCycles) {
+      return this.format(maxCycles, mode, doubleSpeed);
+    }
+    return `${this.convert(minCycles, mode, doubleSpeed)}-${this.convert(maxCycles, mode, doubleSpeed)}${SUFFIXES[mode]}`;
+  }
+
+  // "12 cycles", "3 M-cycles", "2.86 µs" for tooltips and hovers
+  describe(cycles: number, mode: CycleDisplayMode, doubleSpeed = false): string {
+    return `${this.convert(cycles, mode, doubleSpeed)} ${UNIT_NAMES[mode]}`;
+  }
+
+  // Time taken in single-speed T-cycles (PPU dots), the unit of frame and scanline budgets
+  toWallClock(cycles: number, doubleSpeed: boolean): number {
+    return doubleSpeed ? cycles / 2 : cycles;
+  }
+
+  // Lines running in CGB double speed: "; @doublespeed" before the first SECTION covers the file,
+  // inside a section it covers that section; "; @singlespeed" turns a section back
+  findDoubleSpeedLines(lines: ParsedLine[]): Set<number> {
+    let fileFlag = false;
+    const sectionFlags = new Map<number, boolean>();
+    const sectionOf: number[] = [];
+    let section = -1;
+
+    for (const line of lines) {
+      if (line.isDirective && line.instruction?.toUpperCase() === 'SECTION') {
+        section = line.lineNumber;
+      }
+      sectionOf.push(section);
+      const match = line.comment?.match(/@(double|single)speed\b/i);
+      if (match) {
+        const flag = match[1].toLowerCase() === 'double';
+        if (section < 0) {
+          fileFlag = flag;
+        } else {
+          sectionFlags.set(section, flag);
+        }
+      }
+    }
+
+    const doubleSpeed = new Set<number>();
+    lines.forEach((line, i) => {
+      if (sectionFlags.get(sectionOf[i]) ?? fileFlag) {
+        doubleSpeed.add(line.lineNumber);
+      }
+    });
+    return doubleSpeed;
+  }
+
+  private convert(cycles: number, mode: CycleDisplayMode, doubleSpeed: boolean): string {
+    if (mode === 'm-cycles') {
+      return `${Math.round(cycles / 4 * 100) / 100}`;
+    }
+    if (mode === 'microseconds') {
+      const micros = cycles / (CPU_CLOCK_MHZ * (doubleSpeed ? 2 : 1));
+      return micros < 10 ? micros.toFixed(2) : micros < 1000 ? micros.toFixed(1) : `${Math.round(micros)}`;
+    }
+    return `${cycles}`;
+  }
+}
@@ -0,0 +1,210 @@
+import { ParsedLine, OpcodeInfo, MacroDefinition } from '../parser/types';
+import { MacroRegistry } from '../parser/rgbdsParser';
+import { MacroExpander } from '../parser/macroExpander';
+import { RepeatExpander } from '../parser/repeatExpander';
+import { ExpressionEvaluator } from '../parser/expressionEvaluator';
+import { ConditionalTracker } from '../parser/conditionalAssembly';
+import { OpcodeDatabase } from '../opcodes/opcodeData';
+
+export interface MetricsOptions {
+  assumeBranchTaken: boolean;
+  predefBytes: number;
+  predefCycles: number;
+  predefJumpBytes: number;
+  predefJumpCycles: number;
+}
+
+export const DEFAULT_METRICS_OPTIONS: MetricsOptions = {
+  assumeBranchTaken: true,
+  predefBytes: 8,
+  predefCycles: 44,
+  predefJumpBytes: 8,
+  predefJumpCycles: 36
+};
+
+export interface LineCost {
+  bytes: number;
+  cycles: number;       // Cycles for the configured branch assumption
+  minCycles: number;    // Branch not taken
+  maxCycles: number;    // Branch taken
+  opcode?: OpcodeInfo;
+  macroDef?: MacroDefinition;
+  expansion?: ParsedLine[];  // Macro body as expanded for this call site
+  repeat?: RepeatTotal;      // Set on ENDR lines; the line's own cost is what the block adds beyond one pass
+}
+
+export interface RepeatTotal {
+  iterations?: number;  // Undefined when the REPT/FOR count could not be evaluated
+  bytes: number;
+  minCycles: number;
+  maxCycles: number;
+}
+
+export interface DocumentCosts {
+  lines: Map<number, LineCost>;  // Every assembled line outside macro definitions, in order
+  inactiveLines: number[];       // Lines in IF branches that aren't assembled
+}
+
+// Editor-independent byte/cycle costing of parsed lines
+export class MetricsEngine {
+  // Guards against macros that (indirectly) call themselves
+  private static readonly MAX_MACRO_DEPTH = 16;
+
+  constructor(
+    private macroRegistry: MacroRegistry,
+    private macroExpander: MacroExpander,
+    private repeatExpander: RepeatExpander,
+    private evaluator: ExpressionEvaluator,
+    private opcodes: OpcodeDatabase
+  ) {}
+
+  computeLineCost(parsed: ParsedLine, options: MetricsOptions): LineCost {
+    return this.costLine(parsed, options, 0);
+  }
+
+  private costLine(parsed: ParsedLine, options: MetricsOptions, depth: number): LineCost {
+    const cost: LineCost = { bytes: 0, cycles: 0, minCycles: 0, maxCycles: 0 };
+
+    if (parsed.isPredefCall) {
+      // Predef call - use configured bytes/cycles
+      if (parsed.farCall) {
+        cost.bytes = parsed.farCall.bytes;
+        cost.cycles = parsed.farCall.cycles;
+      } else if (parsed.predefType === 'predef_jump') {
+        cost.bytes = options.predefJumpBytes;
+        cost.cycles = options.predefJumpCycles;
+      } else {
+        cost.bytes = options.predefBytes;
+        cost.cycles = options.predefCycles;
+      }
+      cost.minCycles = cost.maxCycles = cost.cycles;
+    } else if (parsed.isMacroCall && parsed.macroName) {
+      // Macro call - expand the body with this call's arguments and cost each line
+      const macroDef = this.macroRegistry.get(parsed.macroName);
+      if (macroDef && depth < MetricsEngine.MAX_MACRO_DEPTH) {
+        cost.macroDef = macroDef;
+        cost.expansion = this.macroExpander.expand(macroDef, parsed.operands);
+        const total = this.sumLines(cost.expansion, options, depth + 1);
+        cost.bytes = total.bytes;
+        cost.minCycles = total.minCycles;
+        cost.maxCycles = total.maxCycles;
+        cost.cycles = options.assumeBranchTaken ? cost.maxCycles : cost.minCycles;
+      } else if (macroDef) {
+        cost.macroDef = macroDef;
+        cost.bytes = macroDef.bytes;
+        cost.maxCycles = macroDef.cycles[0];
+        cost.minCycles = macroDef.cycles[macroDef.cycles.length - 1];
+        cost.cycles = options.assumeBranchTaken ? cost.maxCycles : cost.minCycles;
+      }
+    } else if (parsed.instruction && !parsed.isDirective) {
+      const opcode = this.opcodes.lookup(parsed.instruction, parsed.operands);
+      if (opcode) {
+        cost.opcode = opcode;
+        cost.bytes = opcode.bytes;
+        cost.maxCycles = opcode.cycles[0];
+        cost.minCycles = opcode.cycles[1] ?? opcode.cycles[0];
+        cost.cycles = options.assumeBranchTaken ? cost.maxCycles : cost.minCycles;
+      }
+    } else if (parsed.isDirective && parsed.directiveBytes !== undefined) {
+      cost.bytes = parsed.directiveBytes;
+    }
+
+    return cost;
+  }
+
+  // Total of a run of lines (e.g. a macro expansion), unrolling REPT/FOR blocks
+  private sumLines(lines: ParsedLine[], options: MetricsOptions, depth: number): RepeatTotal {
+    const total: RepeatTotal = { bytes: 0, minCycles: 0, maxCycles: 0 };
+
+    for (let i = 0; i < lines.length; i++) {
+      let cost: { bytes: number; minCycles: number; maxCycles: number };
+      if (RepeatExpander.isBlockStart(lines[i])) {
+        const { body, end } = RepeatExpander.collectBody(lines, i);
+        cost = this.costRepeat(lines[i], body, options, depth);
+        i = end;
+      } else {
+        cost = this.costLine(lines[i], options, depth);
+      }
+      total.bytes += cost.bytes;
+      total.minCycles += cost.minCycles;
+      total.maxCycles += cost.maxCycles;
+    }
+
+    return total;
+  }
+
+  private costRepeat(header: ParsedLine, body: ParsedLine[], options: MetricsOptions, depth: number): RepeatTotal {
+    if (depth >= MetricsEngine.MAX_MACRO_DEPTH) {
+      return { bytes: 0, minCycles: 0, maxCycles: 0 };
+    }
+
+    const expansion = this.repeatExpander.expandBlock(header, body);
+    const once = this.sumLines(expansion.lines, options, depth + 1);
+    return {
+      iterations: expansion.iterations,
+      bytes: once.bytes * expansion.repeat,
+      minCycles: once.minCycles * expansion.repeat,
+      maxCycles: once.maxCycles * expansion.repeat
+    };
+  }
+
+  // Costs of every line in a file, leaving out macro definition bodies and IF branches that aren't assembled.
+  // Lines inside REPT/FOR blocks cost one pass; the block's ENDR line carries the remaining iterations.
+  computeDocumentCosts(lines: ParsedLine[], options: MetricsOptions): DocumentCosts {
+    const result: DocumentCosts = { lines: new Map(), inactiveLines: [] };
+    const conditionals = new ConditionalTracker(this.evaluator);
+    const blocks: { header: ParsedLine; body: ParsedLine[]; counted: RepeatTotal }[] = [];
+    let inMacroDefinition = false;
+
+    for (const parsed of lines) {
+      if (parsed.isDirective && parsed.instruction === 'MACRO') {
+        inMacroDefinition = true;
+      }
+      if (inMacroDefinition) {
+        if (parsed.isDirective && parsed.instruction === 'ENDM') {
+          inMacroDefinition = false;
+        }
+        continue;
+      }
+
+      // Repeat bodies are re-evaluated per iteration, including branches that look inactive here
+      for (const block of blocks) {
+        block.body.push(parsed);
+      }
+
+      if (!conditionals.processLine(parsed.raw.replace(/;.*$/, ''))) {
+        result.inactiveLines.push(parsed.lineNumber);
+        continue;
+      }
+
+      let cost: LineCost;
+      if (RepeatExpander.isBlockStart(parsed)) {
+        blocks.push({ header: parsed, body: [], counted: { bytes: 0, minCycles: 0, maxCycles: 0 } });
+        cost = { bytes: 0, cycles: 0, minCycles: 0, maxCycles: 0 };
+      } else if (RepeatExpander.isBlockEnd(parsed) && blocks.length > 0) {
+        const block = blocks.pop()!;
+        block.body.pop();  // This ENDR
+        const total = this.costRepeat(block.header, block.body, options, 0);
+        cost = {
+          bytes: total.bytes - block.counted.bytes,
+          cycles: 0,
+          minCycles: total.minCycles - block.counted.minCycles,
+          maxCycles: total.maxCycles - block.counted.maxCycles,
+          repeat: total
+        };
+        cost.cycles = options.assumeBranchTaken ? cost.maxCycles : cost.minCycles;
+      } else {
+        cost = this.computeLineCost(parsed, options);
+      }
+
+      for (const block of blocks) {
+        block.counted.bytes += cost.bytes;
+        block.counted.minCycles += cost.minCycles;
+        block.counted.maxCycles += cost.maxCycles;
+      }
+      result.lines.set(parsed.lineNumber, cost);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,135 @@
+import { OpcodeInfo } from '../parser/types';
+import { ExpressionEvaluator } from '../parser/expressionEvaluator';
+import { OpcodeDatabase } from './opcodeData';
+
+// What is known about where an instruction ends up
+export interface EncodeContext {
+  pc?: number;                                         // Address of the instruction, when its section is placed
+  resolveLabel?: (name: string) => number | undefined;  // Absolute address of a label
+  labelOffset?: (name: string) => number | undefined;   // Bytes from the instruction to a label in the same block
+}
+
+// Unknown bytes in the output
+const UNKNOWN = '??';
+
+// Resolving a symbol adds it to the scope and evaluates again; expressions rarely name more than a few
+const MAX_RESOLVED_SYMBOLS = 8;
+
+// SM83 machine code for one instruction: opcode, immediates and addresses (little-endian), jr offsets
+export class InstructionEncoder {
+  constructor(private database: OpcodeDatabase, private evaluator: ExpressionEvaluator) {}
+
+  // "3E 90" for ld a, $90; "EA 40 FF" for ld [rLCDC], a; "18 FC" for jr @-2
+  encode(instruction: string, operands: string[], opcode: OpcodeInfo, context: EncodeContext = {}): string {
+    const mnemonic = instruction.toUpperCase();
+    if (this.database.isCBPrefixedInstruction(mnemonic)) {
+      return `CB ${this.hex(opcode.opcode)}`;
+    }
+
+    const bytes = [this.hex(opcode.opcode)];
+    const [, resolved] = this.database.resolveAlias(mnemonic, operands);
+    opcode.operands.forEach((form, i) => {
+      const operand = resolved[i]?.trim();
+      if (operand !== undefined) {
+        bytes.push(...this.encodeOperand(mnemonic, form.toUpperCase(), operand, context));
+      }
+    });
+
+    // stop is followed by a padding byte
+    while (bytes.length < opcode.bytes) {
+      bytes.push(mnemonic === 'STOP' ? '00' : UNKNOWN);
+    }
+    return bytes.join(' ');
+  }
+
+  private encodeOperand(mnemonic: string, form: string, operand: string, context: EncodeContext): string[] {
+    switch (form) {
+      case 'D8':
+        return [this.byte(this.evaluate(operand, context))];
+      case 'D16':
+      case 'A16':
+        return this.word(this.evaluate(operand, context));
+      case '[A16]':
+        return this.word(this.evaluate(this.unwrap(operand), context));
+      case '[A8]':
+        // ldh takes the low byte of a $FF00-$FFFF address
+        return [this.byte(this.evaluate(this.unwrap(operand), context))];
+      case 'R8':
+        // jr takes a target, add sp a signed byte
+        return [mnemonic === 'JR' ? this.relative(operand, context) : this.signedByte(this.evaluate(operand, context))];
+      case 'SP+R8': {
+        const offset = operand.replace(/\s+/g, '').match(/^sp([+-].*)$/i);
+        return [offset ? this.signedByte(this.evaluate(offset[1], context)) : UNKNOWN];
+      }
+      default:
+        // Registers, conditions and rst vectors are part of the opcode
+        return [];
+    }
+  }
+
+  // jr offset from the end of the 2-byte instruction, from absolute addresses when placed, else from
+  // distances within the block; both frames must agree, so absolute targets in unplaced code stay unknown
+  private relative(target: string, context: EncodeContext): string {
+    if (context.pc !== undefined) {
+      const address = this.evaluate(target, context);
+      if (address !== undefined) {
+        return this.jumpOffset(address - context.pc - 2);
+      }
+    }
+
+    const offsets = [0, 0x1000].map(base => {
+      const value = this.evaluate(target, {
+        pc: base,
+        resolveLabel: name => {
+          const distance = context.labelOffset?.(name);
+          return distance !== undefined ? base + distance : undefined;
+        }
+      });
+      return value !== undefined ? value - base : undefined;
+    });
+    return offsets[0] !== undefined && offsets[0] === offsets[1] ? this.jumpOffset(offsets[0] - 2) : UNKNOWN;
+  }
+
+  private jumpOffset(offset: number): string {
+    return offset >= -128 && offset <= 127 ? this.hex(offset & 0xFF) : UNKNOWN;
+  }
+
+  // Evaluates with @ and label addresses from the context, one unresolved symbol at a time
+  private evaluate(expression: string, context: EncodeContext): number | undefined {
+    const symbols = new Map<string, number>();
+    for (let i = 0; i <= MAX_RESOLVED_SYMBOLS; i++) {
+      const result = this.evaluator.evaluateDetailed(expression, { symbols, pc: context.pc });
+      if (result.value !== undefined || result.error) {
+        return result.value;
+      }
+      const name = result.unresolved[0];
+      const address = name && name !== '@' ? context.resolveLabel?.(name) : undefined;
+      if (address === undefined) {
+        return undefined;
+      }
+      symbols.set(name, address);
+    }
+    return undefined;
+  }
+
+  // "[rLCDC]" or "(rLCDC)" to "rLCDC"
+  private unwrap(operand: string): string {
+    return /^[[(].*[\])]$/.test(operand) ? operand.slice(1, -1) : operand;
+  }
+
+  private byte(value: number | undefined): string {
+    return value !== undefined ? this.hex(value & 0xFF) : UNKNOWN;
+  }
+
+  private signedByte(value: number | undefined): string {
+    return value !== undefined && value >= -128 && value <= 127 ? this.hex(value & 0xFF) : UNKNOWN;
+  }
+
+  private word(value: number | undefined): string[] {
+    return value !== undefined ? [this.hex(value & 0xFF), this.hex((value >> 8) & 0xFF)] : [UNKNOWN, UNKNOWN];
+  }
+
+  private hex(value: number): string {
+    return value.toString(16).toUpperCase().padStart(2, '0');
+  }
+}
@@ -1,4 +1,5 @@
 import { OpcodeInfo, FlagEffect } from '../parser/types';
+import { ExpressionEvaluator } from '../parser/expressionEvaluator';
 import unprefixedOpcodes from './unprefixed.json';
 import cbPrefixedOpcodes from './cbprefixed.json';
 
@@ -12,11 +13,12 @@ interface RawOpcodeData {
 
 type OpcodeTable = Record<string, RawOpcodeData>;
 
-class OpcodeDatabase {
+export class OpcodeDatabase {
   private lookupMap: Map<string, OpcodeInfo> = new Map();
   private cbLookupMap: Map<string, OpcodeInfo> = new Map();
+  private mnemonics: Set<string> = new Set();
 
-  constructor() {
+  constructor(private evaluator: ExpressionEvaluator) {
     this.buildLookupMaps();
   }
 
@@ -34,6 +36,7 @@ class OpcodeDatabase {
         operands: data.operands
       };
       this.lookupMap.set(key, info);
+      this.mnemonics.add(data.mnemonic.toUpperCase());
     }
 
     // Build CB-prefixed lookup
@@ -49,6 +52,7 @@ class OpcodeDatabase {
         operands: data.operands
       };
       this.cbLookupMap.set(key, info);
+      this.mnemonics.add(data.mnemonic.toUpperCase());
     }
   }
 
@@ -69,7 +73,8 @@ class OpcodeDatabase {
   }
 
   lookup(mnemonic: string, operands: string[]): OpcodeInfo | null {
-    const normalizedMnemonic = mnemonic.toUpperCase();
+    [mnemonic, operands] = this.resolveAlias(mnemonic.toUpperCase(), operands);
+    const normalizedMnemonic = mnemonic;
 
     // Check for CB-prefixed instructions
     const cbInstructions = ['RLC', 'RRC', 'RL', 'RR', 'SLA', 'SRA', 'SWAP', 'SRL', 'BIT', 'RES', 'SET'];
@@ -78,8 +83,45 @@ class OpcodeDatabase {
     }
 
     // Handle special cases for operand patterns
+    // Operands spelled exactly as in the table (RST 38H) first
     const key = this.buildSearchKey(normalizedMnemonic, operands);
-    return this.lookupMap.get(key) || this.findWithWildcard(normalizedMnemonic, operands);
+    return this.lookupMap.get(this.buildLookupKey(normalizedMnemonic, operands)) ||
+           this.lookupMap.get(key) || this.findWithWildcard(normalizedMnemonic, operands);
+  }
+
+  // Alternative spellings rgbasm accepts, rewritten to the form used in the opcode table
+  resolveAlias(mnemonic: string, operands: string[]): [string, string[]] {
+    const upper = operands.map(op => op.toUpperCase().replace(/\s+/g, ''));
+
+    // jp [hl] / jp (hl)
+    if (mnemonic === 'JP' && upper.length === 1 && (upper[0] === '[HL]' || upper[0] === '(HL)')) {
+      return ['JP', ['HL']];
+    }
+    // ldh [c], a / ldh a, [c]
+    if (mnemonic === 'LDH' && upper.some(op => op === '[C]' || op === '(C)')) {
+      return ['LD', operands];
+    }
+    // ldi/ldd a, [hl] and [hl], a
+    if ((mnemonic === 'LDI' || mnemonic === 'LDD') && upper.length === 2) {
+      const pointer = mnemonic === 'LDI' ? '[HL+]' : '[HL-]';
+      return ['LD', upper.map((op, i) => op === '[HL]' || op === '(HL)' ? pointer : operands[i])];
+    }
+    // sub a, b / and a, $0F / ... with the implied accumulator spelled out
+    if (['SUB', 'AND', 'XOR', 'OR', 'CP'].includes(mnemonic) && upper.length === 2 && upper[0] === 'A') {
+      return [mnemonic, operands.slice(1)];
+    }
+    // add b / adc $10 / sbc [hl] with the accumulator left out
+    if (['ADD', 'ADC', 'SBC'].includes(mnemonic) && upper.length === 1) {
+      return [mnemonic, ['A', ...operands]];
+    }
+    // rst $38 / rst 56, written as 38H in the table
+    if (mnemonic === 'RST' && operands.length === 1) {
+      const vector = this.evaluator.evaluate(operands[0]);
+      if (vector !== undefined) {
+        return ['RST', [`${vector.toString(16).toUpperCase().padStart(2, '0')}H`]];
+      }
+    }
+    return [mnemonic, operands];
   }
 
   private lookupCB(mnemonic: string, operands: string[]): OpcodeInfo | null {
@@ -87,9 +129,14 @@ class OpcodeDatabase {
     let result = this.cbLookupMap.get(key);
     if (result) return result;
 
-    // For BIT/SET/RES with constant bit numbers, try all bit positions (0-7)
+    // For BIT/SET/RES with constant bit numbers, use the evaluated bit or try all positions (0-7)
     if (['BIT', 'SET', 'RES'].includes(mnemonic) && operands.length === 2) {
       const register = this.normalizeSearchOperand(operands[1]);
+      const bitNumber = this.evaluator.evaluate(operands[0]);
+      if (bitNumber !== undefined && bitNumber >= 0 && bitNumber <= 7) {
+        result = this.cbLookupMap.get(`${mnemonic} ${bitNumber},${register}`);
+        if (result) return result;
+      }
       // Try each bit position 0-7
       for (let bit = 0; bit <= 7; bit++) {
         const tryKey = `${mnemonic} ${bit},${register}`;
@@ -122,6 +169,12 @@ class OpcodeDatabase {
       return 'D8';
     }
 
+    // Size immediate expressions from their value when the constants are known
+    const immediate = this.classifyImmediate(operand);
+    if (immediate) {
+      return immediate;
+    }
+
     // Handle memory addressing variations (both parentheses and brackets)
     normalized = normalized
       .replace(/\s+/g, '')
@@ -161,6 +214,15 @@ class OpcodeDatabase {
       if (registerIndirect.includes(inner)) {
         return normalized;  // Keep as [HL], [BC], [DE], [C], [HL+], [HL-]
       }
+      // [$FF00+c] is the long form of [C]
+      if (/^\$?FF00\+C$/.test(inner)) {
+        return '[C]';
+      }
+      // Resolve the address where possible - $FF00-$FFFF is reachable with LDH
+      const address = this.evaluator.evaluate(operand.trim().slice(1, -1));
+      if (address !== undefined) {
+        return address >= 0xFF00 && address <= 0xFFFF ? '[A8]' : '[A16]';
+      }
       // Memory access via constant (like [rLCDC]) - treat as 16-bit address
       if (/^[A-Z_][A-Z0-9_]*$/.test(inner)) {
         return '[A16]';
@@ -183,6 +245,35 @@ class OpcodeDatabase {
     return normalized;
   }
 
+  private classifyImmediate(operand: string): string | null {
+    const trimmed = operand.trim();
+    if (trimmed.startsWith('[') || this.isParenthesized(trimmed) || this.isRegister(trimmed) || this.isCondition(trimmed)) {
+      return null;
+    }
+
+    const value = this.evaluator.evaluate(trimmed);
+    if (value === undefined) {
+      return null;
+    }
+    return value >= -128 && value <= 255 ? 'D8' : 'D16';
+  }
+
+  // "(hl)" or "($C000)" is a memory operand, "(3) << 8 | (4)" is an expression
+  private isParenthesized(operand: string): boolean {
+    if (!operand.startsWith('(')) {
+      return false;
+    }
+    let depth = 0;
+    for (let i = 0; i < operand.length; i++) {
+      if (operand[i] === '(') {
+        depth++;
+      } else if (operand[i] === ')' && --depth === 0) {
+        return i === operand.length - 1;
+      }
+    }
+    return false;
+  }
+
   private isImmediateValue(operand: string): boolean {
     // Check for various numeric formats
     return /^(\$[0-9A-Fa-f]+|%[01]+|&[0-7]+|\d+|"."|\w+)$/.test(operand) &&
@@ -245,45 +336,44 @@ class OpcodeDatabase {
   }
 
   private generateSearchPatterns(mnemonic: string, operands: string[]): string[] {
-    const patterns: string[] = [];
-
     if (operands.length === 0) {
-      patterns.push(mnemonic);
-    } else if (operands.length === 1) {
-      const op = this.normalizeSearchOperand(operands[0]);
-      patterns.push(`${mnemonic} ${op}`);
-      patterns.push(`${mnemonic} D8`);
-      patterns.push(`${mnemonic} D16`);
-      patterns.push(`${mnemonic} A16`);  // For CALL, JP (address vs data)
-      patterns.push(`${mnemonic} R8`);
-      patterns.push(`${mnemonic} [A8]`);
-      patterns.push(`${mnemonic} [A16]`);
-      patterns.push(`${mnemonic} [HL]`);
-    } else if (operands.length === 2) {
-      const op1 = this.normalizeSearchOperand(operands[0]);
-      const op2 = this.normalizeSearchOperand(operands[1]);
-      patterns.push(`${mnemonic} ${op1},${op2}`);
-
-      // Try with d8/d16/a16 substitutions
-      patterns.push(`${mnemonic} ${op1},D8`);
-      patterns.push(`${mnemonic} ${op1},D16`);
-      patterns.push(`${mnemonic} ${op1},A16`);  // For conditional JP/CALL
-      patterns.push(`${mnemonic} ${op1},R8`);
-      patterns.push(`${mnemonic} ${op1},[A8]`);
-      patterns.push(`${mnemonic} ${op1},[A16]`);
-      patterns.push(`${mnemonic} [A8],${op2}`);
-      patterns.push(`${mnemonic} [A16],${op2}`);
-      patterns.push(`${mnemonic} [HL],D8`);
-
-      // Special case for SP+r8
-      if (op1 === 'HL' && op2.includes('SP')) {
-        patterns.push(`${mnemonic} HL,SP+R8`);
-      }
+      return [mnemonic];
     }
 
+    // Only substitute operands of the same kind: registers and conditions are fixed,
+    // memory operands try [A8]/[A16], everything else tries the immediate forms
+    let patterns = [mnemonic + ' '];
+    operands.forEach((operand, index) => {
+      const candidates = this.operandCandidates(this.normalizeSearchOperand(operand));
+      const next: string[] = [];
+      for (const prefix of patterns) {
+        for (const candidate of candidates) {
+          next.push(index === 0 ? prefix + candidate : `${prefix},${candidate}`);
+        }
+      }
+      patterns = next;
+    });
+
     return patterns;
   }
 
+  private operandCandidates(normalized: string): string[] {
+    if (this.isRegister(normalized) || this.isCondition(normalized)) {
+      return [normalized];
+    }
+    if (normalized.startsWith('[') && normalized.endsWith(']')) {
+      const isAddress = normalized === '[A8]' || normalized === '[A16]';
+      return isAddress ? [normalized, '[A8]', '[A16]'] : [normalized];
+    }
+    // Special case for SP+r8
+    if (normalized.startsWith('SP') && normalized !== 'SP') {
+      return [normalized, 'SP+R8'];
+    }
+
+    const immediates = ['D8', 'D16', 'A16', 'R8'];  // A16 for CALL/JP, R8 for JR
+    return [normalized, ...immediates.filter(form => form !== normalized)];
+  }
+
   getOpcodeHex(info: OpcodeInfo, isCBPrefixed: boolean): string {
     if (isCBPrefixed) {
       return `CB ${info.opcode.toString(16).toUpperCase().padStart(2, '0')}`;
@@ -291,10 +381,12 @@ class OpcodeDatabase {
     return info.opcode.toString(16).toUpperCase().padStart(2, '0');
   }
 
+  isMnemonic(name: string): boolean {
+    return this.mnemonics.has(name.toUpperCase());
+  }
+
   isCBPrefixedInstruction(mnemonic: string): boolean {
     const cbInstructions = ['RLC', 'RRC', 'RL', 'RR', 'SLA', 'SRA', 'SWAP', 'SRL', 'BIT', 'RES', 'SET'];
     return cbInstructions.includes(mnemonic.toUpperCase());
   }
 }
-
-export const opcodeDatabase = new OpcodeDatabase();
@@ -0,0 +1,71 @@
+import { ExpressionEvaluator } from './expressionEvaluator';
+
+interface ConditionalFrame {
+  parentActive: boolean;
+  active: boolean;
+  taken: boolean;   // Some branch of this IF has already been chosen
+}
+
+// Follows IF/ELIF/ELSE/ENDC nesting line by line and reports which lines would be assembled
+export class ConditionalTracker {
+  private static readonly KEYWORDS = ['IF', 'ELIF', 'ELSE', 'ENDC'];
+
+  private frames: ConditionalFrame[] = [];
+
+  constructor(private evaluator: ExpressionEvaluator) {}
+
+  // Whether a comment-free line is one of IF/ELIF/ELSE/ENDC
+  static isConditional(code: string): boolean {
+    return ConditionalTracker.KEYWORDS.includes(code.trim().split(/\s+/)[0].toUpperCase());
+  }
+
+  reset(): void {
+    this.frames = [];
+  }
+
+  isActive(): boolean {
+    return this.frames.length === 0 || this.frames[this.frames.length - 1].active;
+  }
+
+  // Feed the next comment-free line. Returns whether the line itself is assembled;
+  // the conditional directives count as assembled when their enclosing block is.
+  processLine(code: string): boolean {
+    const trimmed = code.trim();
+    const keyword = trimmed.split(/\s+/)[0].toUpperCase();
+    const condition = trimmed.slice(keyword.length).trim();
+    const frame = this.frames[this.frames.length - 1];
+
+    switch (keyword) {
+      case 'IF': {
+        const active = this.isActive();
+        const value = active && this.isTrue(condition);
+        this.frames.push({ parentActive: active, active: value, taken: value });
+        return active;
+      }
+      case 'ELIF':
+        if (frame) {
+          const value = frame.parentActive && !frame.taken && this.isTrue(condition);
+          frame.active = value;
+          frame.taken = frame.taken || value;
+        }
+        return frame ? frame.parentActive : true;
+      case 'ELSE':
+        if (frame) {
+          frame.active = frame.parentActive && !frame.taken;
+          frame.taken = true;
+        }
+        return frame ? frame.parentActive : true;
+      case 'ENDC':
+        this.frames.pop();
+        return frame ? frame.parentActive : true;
+      default:
+        return this.isActive();
+    }
+  }
+
+  // Conditions that can't be evaluated (e.g. on labels) take the first branch
+  private isTrue(condition: string): boolean {
+    const value = this.evaluator.evaluate(condition);
+    return value === undefined || value !== 0;
+  }
+}
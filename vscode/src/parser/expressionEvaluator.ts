@@ -0,0 +1,414 @@
+import { ConstantTable } from './rgbdsParser';
+
+// Extra context for a single evaluation (macro arguments, FOR variables, @)
+export interface ExpressionScope {
+  symbols?: Map<string, number>;
+  pc?: number;
+}
+
+export interface EvaluationResult {
+  value?: number;
+  unresolved: string[];  // Symbol that stopped evaluation, if any
+  error?: string;        // Set when the expression could not be parsed
+}
+
+type TokenType = 'number' | 'identifier' | 'string' | 'operator' | 'lparen' | 'rparen' | 'comma';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value?: number;
+}
+
+class UnresolvedSymbol extends Error {
+  constructor(readonly symbol: string) {
+    super(`Unresolved symbol: ${symbol}`);
+  }
+}
+
+// Evaluates RGBDS numeric expressions against the constant table
+// Values follow rgbasm semantics: 32-bit signed integers
+export class ExpressionEvaluator {
+  // Binary operators, lowest to highest precedence (see rgbasm(5))
+  private static readonly BINARY_PRECEDENCE: { [op: string]: number } = {
+    '||': 1,
+    '&&': 2,
+    '==': 3, '!=': 3, '<': 3, '>': 3, '<=': 3, '>=': 3,
+    '+': 4, '-': 4,
+    '&': 5, '|': 5, '^': 5,
+    '<<': 6, '>>': 6, '>>>': 6,
+    '*': 7, '/': 7, '%': 7,
+  };
+
+  private static readonly OPERATORS = ['>>>', '**', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '&', '|', '^', '~', '!', '<', '>'];
+
+  // Prevents runaway recursion through self-referencing constants
+  private resolving: Set<string> = new Set();
+
+  constructor(private constants: ConstantTable) {}
+
+  evaluate(expression: string, scope?: ExpressionScope): number | undefined {
+    return this.evaluateDetailed(expression, scope).value;
+  }
+
+  evaluateDetailed(expression: string, scope?: ExpressionScope): EvaluationResult {
+    let tokens: Token[];
+    try {
+      tokens = this.tokenize(expression);
+    } catch (e) {
+      return { unresolved: [], error: (e as Error).message };
+    }
+
+    if (tokens.length === 0) {
+      return { unresolved: [], error: 'Empty expression' };
+    }
+
+    const state: ParseState = { tokens, pos: 0, scope };
+
+    try {
+      const value = this.parseBinary(state, 1);
+      if (state.pos < tokens.length) {
+        return { unresolved: [], error: `Unexpected '${tokens[state.pos].text}'` };
+      }
+      return { value, unresolved: [] };
+    } catch (e) {
+      if (e instanceof UnresolvedSymbol) {
+        return { unresolved: [e.symbol] };
+      }
+      return { unresolved: [], error: (e as Error).message };
+    }
+  }
+
+  // True if the text parses as an expression, whether or not its symbols are known
+  isExpression(expression: string): boolean {
+    return this.evaluateDetailed(expression).error === undefined;
+  }
+
+  private tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    // '%' and '&' are literal prefixes where an operand is expected, operators otherwise
+    const expectsOperand = () => {
+      const prev = tokens[tokens.length - 1];
+      return !prev || prev.type === 'operator' || prev.type === 'lparen' || prev.type === 'comma';
+    };
+
+    while (i < expression.length) {
+      const char = expression[i];
+      const rest = expression.slice(i);
+
+      if (char === ' ' || char === '\t') {
+        i++;
+        continue;
+      }
+
+      let match: RegExpMatchArray | null;
+
+      if ((match = rest.match(/^\$([0-9A-Fa-f_]+)/))) {
+        tokens.push({ type: 'number', text: match[0], value: this.parseDigits(match[1], 16) });
+      } else if ((match = rest.match(/^0[xX]([0-9A-Fa-f_]+)/))) {
+        tokens.push({ type: 'number', text: match[0], value: this.parseDigits(match[1], 16) });
+      } else if ((match = rest.match(/^0[bB]([01_]+)/))) {
+        tokens.push({ type: 'number', text: match[0], value: this.parseDigits(match[1], 2) });
+      } else if ((match = rest.match(/^0[oO]([0-7_]+)/))) {
+        tokens.push({ type: 'number', text: match[0], value: this.parseDigits(match[1], 8) });
+      } else if (char === '%' && expectsOperand() && (match = rest.match(/^%([01_]+)/))) {
+        tokens.push({ type: 'number', text: match[0], value: this.parseDigits(match[1], 2) });
+      } else if (char === '&' && expectsOperand() && (match = rest.match(/^&([0-7_]+)/))) {
+        tokens.push({ type: 'number', text: match[0], value: this.parseDigits(match[1], 8) });
+      } else if ((match = rest.match(/^(\d[\d_]*)\.(\d+)/))) {
+        // Fixed-point literal (16.16)
+        const value = Math.round(parseFloat(`${match[1].replace(/_/g, '')}.${match[2]}`) * 65536);
+        tokens.push({ type: 'number', text: match[0], value: value | 0 });
+      } else if ((match = rest.match(/^\d[\d_]*/))) {
+        tokens.push({ type: 'number', text: match[0], value: this.parseDigits(match[0], 10) });
+      } else if ((match = rest.match(/^"((?:[^"\\]|\\.)*)"/))) {
+        tokens.push({ type: 'string', text: match[1] });
+      } else if ((match = rest.match(/^[A-Za-z_.][\w.#@]*/)) || (match = rest.match(/^@/))) {
+        tokens.push({ type: 'identifier', text: match[0] });
+      } else if (char === '(') {
+        tokens.push({ type: 'lparen', text: char });
+      } else if (char === ')') {
+        tokens.push({ type: 'rparen', text: char });
+      } else if (char === ',') {
+        tokens.push({ type: 'comma', text: char });
+      } else {
+        const op = ExpressionEvaluator.OPERATORS.find(candidate => rest.startsWith(candidate));
+        if (!op) {
+          throw new Error(`Unexpected character '${char}'`);
+        }
+        tokens.push({ type: 'operator', text: op });
+        i += op.length;
+        continue;
+      }
+
+      i += match ? match[0].length : 1;
+    }
+
+    return tokens;
+  }
+
+  private parseDigits(digits: string, radix: number): number {
+    return parseInt(digits.replace(/_/g, ''), radix) | 0;
+  }
+
+  private parseBinary(state: ParseState, minPrecedence: number): number {
+    let left = this.parseUnary(state);
+
+    for (;;) {
+      const token = state.tokens[state.pos];
+      if (!token || token.type !== 'operator') {
+        break;
+      }
+      const precedence = ExpressionEvaluator.BINARY_PRECEDENCE[token.text];
+      if (precedence === undefined || precedence < minPrecedence) {
+        break;
+      }
+      state.pos++;
+      const right = this.parseBinary(state, precedence + 1);
+      left = this.applyBinary(token.text, left, right);
+    }
+
+    return left;
+  }
+
+  private parseUnary(state: ParseState): number {
+    const token = state.tokens[state.pos];
+    if (token && token.type === 'operator' && ['-', '+', '~', '!'].includes(token.text)) {
+      state.pos++;
+      const operand = this.parseUnary(state);
+      switch (token.text) {
+        case '-': return -operand | 0;
+        case '+': return operand;
+        case '~': return ~operand;
+        default: return operand === 0 ? 1 : 0;
+      }
+    }
+    return this.parseExponent(state);
+  }
+
+  private parseExponent(state: ParseState): number {
+    const base = this.parsePrimary(state);
+    const token = state.tokens[state.pos];
+    if (token && token.type === 'operator' && token.text === '**') {
+      state.pos++;
+      const exponent = this.parseUnary(state);
+      if (exponent < 0) {
+        throw new Error('Negative exponent');
+      }
+      return Math.pow(base, exponent) | 0;
+    }
+    return base;
+  }
+
+  private parsePrimary(state: ParseState): number {
+    const token = state.tokens[state.pos];
+    if (!token) {
+      throw new Error('Unexpected end of expression');
+    }
+    state.pos++;
+
+    switch (token.type) {
+      case 'number':
+        return token.value!;
+      case 'string':
+        // Single-character strings are character constants
+        if (token.text.length === 1) {
+          return token.text.charCodeAt(0);
+        }
+        throw new Error(`String "${token.text}" used as a number`);
+      case 'lparen': {
+        const value = this.parseBinary(state, 1);
+        this.expect(state, 'rparen');
+        return value;
+      }
+      case 'identifier': {
+        const next = state.tokens[state.pos];
+        if (next && next.type === 'lparen') {
+          state.pos++;
+          return this.callFunction(token.text.toUpperCase(), state);
+        }
+        return this.resolveSymbol(token.text, state);
+      }
+      default:
+        throw new Error(`Unexpected '${token.text}'`);
+    }
+  }
+
+  private callFunction(name: string, state: ParseState): number {
+    // Functions whose argument is a symbol name rather than a value
+    if (name === 'DEF') {
+      const symbol = state.tokens[state.pos];
+      if (!symbol || symbol.type !== 'identifier') {
+        throw new Error('DEF() expects a symbol name');
+      }
+      state.pos++;
+      this.expect(state, 'rparen');
+      return this.isDefined(symbol.text, state.scope) ? 1 : 0;
+    }
+
+    if (name === 'STRLEN') {
+      const str = state.tokens[state.pos];
+      if (!str || str.type !== 'string') {
+        throw new Error('STRLEN() expects a string');
+      }
+      state.pos++;
+      this.expect(state, 'rparen');
+      return str.text.length;
+    }
+
+    if (name === 'ISCONST') {
+      const start = state.pos;
+      let isConst = 1;
+      try {
+        this.parseBinary(state, 1);
+      } catch (e) {
+        if (!(e instanceof UnresolvedSymbol)) {
+          throw e;
+        }
+        isConst = 0;
+        this.skipToClosingParen(state, start);
+      }
+      this.expect(state, 'rparen');
+      return isConst;
+    }
+
+    const args: number[] = [];
+    if (state.tokens[state.pos]?.type !== 'rparen') {
+      args.push(this.parseBinary(state, 1));
+      while (state.tokens[state.pos]?.type === 'comma') {
+        state.pos++;
+        args.push(this.parseBinary(state, 1));
+      }
+    }
+    this.expect(state, 'rparen');
+
+    switch (name) {
+      case 'HIGH':
+        return (args[0] >> 8) & 0xFF;
+      case 'LOW':
+        return args[0] & 0xFF;
+      case 'BITWIDTH':
+        return args[0] === 0 ? 0 : 32 - Math.clz32(args[0]);
+      case 'TZCOUNT':
+        return args[0] === 0 ? 32 : 31 - Math.clz32(args[0] & -args[0]);
+      case 'ABS':
+        return Math.abs(args[0]) | 0;
+      default:
+        // BANK(), SIZEOF(), STARTOF() etc. depend on the linker
+        throw new UnresolvedSymbol(`${name}()`);
+    }
+  }
+
+  private skipToClosingParen(state: ParseState, start: number): void {
+    let depth = 0;
+    state.pos = start;
+    while (state.pos < state.tokens.length) {
+      const token = state.tokens[state.pos];
+      if (token.type === 'lparen') depth++;
+      if (token.type === 'rparen') {
+        if (depth === 0) return;
+        depth--;
+      }
+      state.pos++;
+    }
+  }
+
+  private resolveSymbol(name: string, state: ParseState): number {
+    if (name === '@') {
+      if (state.scope?.pc !== undefined) {
+        return state.scope.pc;
+      }
+      throw new UnresolvedSymbol(name);
+    }
+
+    const scoped = state.scope?.symbols?.get(name);
+    if (scoped !== undefined) {
+      return scoped;
+    }
+
+    if (name === '_RS') {
+      return this.constants.getRS();
+    }
+
+    const value = this.resolveConstant(name);
+    if (value === undefined) {
+      throw new UnresolvedSymbol(name);
+    }
+    return value;
+  }
+
+  // Resolves a constant, lazily evaluating definitions whose operands were unknown when defined
+  resolveConstant(name: string): number | undefined {
+    const def = this.constants.get(name);
+    if (!def || def.kind === 'EQUS') {
+      return undefined;
+    }
+    if (def.value !== undefined) {
+      return def.value;
+    }
+    if (this.resolving.has(name)) {
+      return undefined;
+    }
+
+    this.resolving.add(name);
+    try {
+      const value = this.evaluate(def.expression);
+      if (value !== undefined) {
+        def.value = value;
+      }
+      return value;
+    } finally {
+      this.resolving.delete(name);
+    }
+  }
+
+  private isDefined(name: string, scope?: ExpressionScope): boolean {
+    return scope?.symbols?.has(name) === true || this.constants.has(name);
+  }
+
+  private expect(state: ParseState, type: TokenType): void {
+    const token = state.tokens[state.pos];
+    if (!token || token.type !== type) {
+      throw new Error(`Expected ${type === 'rparen' ? "')'" : type}`);
+    }
+    state.pos++;
+  }
+
+  private applyBinary(op: string, left: number, right: number): number {
+    switch (op) {
+      case '+': return (left + right) | 0;
+      case '-': return (left - right) | 0;
+      case '*': return Math.imul(left, right);
+      case '/':
+        if (right === 0) throw new Error('Division by zero');
+        return Math.floor(left / right) | 0;
+      case '%':
+        if (right === 0) throw new Error('Modulo by zero');
+        return (left - Math.floor(left / right) * right) | 0;
+      case '<<': return right >= 32 ? 0 : left << right;
+      case '>>': return right >= 32 ? (left < 0 ? -1 : 0) : left >> right;
+      case '>>>': return right >= 32 ? 0 : (left >>> right) | 0;
+      case '&': return left & right;
+      case '|': return left | right;
+      case '^': return left ^ right;
+      case '==': return left === right ? 1 : 0;
+      case '!=': return left !== right ? 1 : 0;
+      case '<': return left < right ? 1 : 0;
+      case '>': return left > right ? 1 : 0;
+      case '<=': return left <= right ? 1 : 0;
+      case '>=': return left >= right ? 1 : 0;
+      case '&&': return left !== 0 && right !== 0 ? 1 : 0;
+      case '||': return left !== 0 || right !== 0 ? 1 : 0;
+      default:
+        throw new Error(`Unknown operator '${op}'`);
+    }
+  }
+}
+
+interface ParseState {
+  tokens: Token[];
+  pos: number;
+  scope?: ExpressionScope;
+}
@@ -0,0 +1,143 @@
+import * as path from 'path';
+import { LinkedSection, LinkedSymbol, SectionInfo, SectionType } from './types';
+
+const SECTION_TYPES: SectionType[] = ['ROM0', 'ROMX', 'VRAM', 'SRAM', 'WRAM0', 'WRAMX', 'OAM', 'HRAM'];
+
+// A section whose size from the source differs from what the linker placed
+export interface SectionSizeMismatch {
+  name: string;
+  computed: SectionInfo;
+  linked: LinkedSection;
+}
+
+// Label addresses and section placement from the .sym and .map files of the last build
+export class LinkerFiles {
+  private symbols: Map<string, LinkedSymbol> = new Map();
+  private sections: LinkedSection[] = [];
+  private symPath?: string;
+  private mapPath?: string;
+
+  clear(): void {
+    this.symbols.clear();
+    this.sections = [];
+    this.symPath = undefined;
+    this.mapPath = undefined;
+  }
+
+  // "BB:AAAA Name" lines; everything after ';' is a comment
+  loadSymFile(filePath: string, content: string): void {
+    this.symbols.clear();
+    this.symPath = filePath;
+    for (const line of content.split(/\r?\n/)) {
+      const match = line.replace(/;.*$/, '').trim().match(/^([0-9a-f]+):([0-9a-f]+)\s+(\S+)/i);
+      if (match) {
+        const symbol = { name: match[3], bank: parseInt(match[1], 16), address: parseInt(match[2], 16) };
+        const key = symbol.name.toUpperCase();
+        if (!this.symbols.has(key)) {
+          this.symbols.set(key, symbol);
+        }
+      }
+    }
+  }
+
+  // "ROMX bank #1:" headers followed by "SECTION: $4000-$40ff ($0100 bytes) ["Name"]" lines
+  loadMapFile(filePath: string, content: string): void {
+    this.sections = [];
+    this.mapPath = filePath;
+    let type: SectionType | undefined;
+    let bank = 0;
+
+    for (const line of content.split(/\r?\n/)) {
+      const header = line.match(/^\s*(\w+)\s+bank\s+#(\d+)\s*:/i);
+      if (header) {
+        const name = header[1].toUpperCase() as SectionType;
+        type = SECTION_TYPES.includes(name) ? name : undefined;
+        bank = parseInt(header[2], 10);
+        continue;
+      }
+      if (/^\s*SUMMARY\s*:/i.test(line)) {
+        type = undefined;
+        continue;
+      }
+      const section = line.match(/^\s*SECTION:\s*\$([0-9a-f]+)(?:-\$[0-9a-f]+)?\s*\(\$([0-9a-f]+)\s+bytes?\)\s*\["(.*)"\]/i);
+      if (section && type) {
+        this.sections.push({
+          name: section[3],
+          type,
+          bank,
+          address: parseInt(section[1], 16),
+          bytes: parseInt(section[2], 16)
+        });
+      }
+    }
+  }
+
+  hasSymbols(): boolean {
+    return this.symbols.size > 0;
+  }
+
+  hasMap(): boolean {
+    return this.sections.length > 0;
+  }
+
+  getSymbol(name: string): LinkedSymbol | undefined {
+    return this.symbols.get(name.toUpperCase());
+  }
+
+  getSections(): LinkedSection[] {
+    return this.sections;
+  }
+
+  getSymPath(): string | undefined {
+    return this.symPath;
+  }
+
+  getMapPath(): string | undefined {
+    return this.mapPath;
+  }
+
+  // "01:4A2B"
+  formatAddress(bank: number, address: number): string {
+    return `${bank.toString(16).toUpperCase().padStart(2, '0')}:${address.toString(16).toUpperCase().padStart(4, '0')}`;
+  }
+
+  // Sections (FRAGMENTs and UNIONs already merged) whose size doesn't match the map
+  compareSections(computed: SectionInfo[]): SectionSizeMismatch[] {
+    const linked = new Map<string, LinkedSection>();
+    for (const section of this.sections) {
+      const existing = linked.get(section.name);
+      linked.set(section.name, existing ? { ...existing, bytes: existing.bytes + section.bytes } : section);
+    }
+
+    const mismatches: SectionSizeMismatch[] = [];
+    for (const section of computed) {
+      const match = linked.get(section.name);
+      if (match && match.bytes !== section.bytes) {
+        mismatches.push({ name: section.name, computed: section, linked: match });
+      }
+    }
+    return mismatches;
+  }
+
+  // Markdown appended to the bank usage report when a map file is loaded
+  formatComparison(computed: SectionInfo[], rootPath?: string): string {
+    if (!this.mapPath || !this.hasMap()) {
+      return '';
+    }
+    const source = rootPath ? path.relative(rootPath, this.mapPath) : this.mapPath;
+    const mismatches = this.compareSections(computed);
+    const lines = ['', `## Compared with ${source}`, ''];
+    if (mismatches.length === 0) {
+      lines.push(`All ${computed.length} sections match the linker's sizes.`);
+      return lines.join('\n');
+    }
+
+    lines.push('| Section | Computed | Linker | Placed at | Location |');
+    lines.push('|:---|---:|---:|:---|:---|');
+    for (const { name, computed: section, linked } of mismatches) {
+      const file = rootPath ? path.relative(rootPath, section.filePath) : section.filePath;
+      lines.push(`| ${name} | ${section.bytes} | ${linked.bytes} | ${linked.type} ${this.formatAddress(linked.bank, linked.address)} | ${file}:${section.lineNumber + 1} |`);
+    }
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,55 @@
+import { ParsedLine, MacroDefinition } from './types';
+import { RGBDSParser } from './rgbdsParser';
+import { ExpressionEvaluator } from './expressionEvaluator';
+import { ConditionalTracker } from './conditionalAssembly';
+
+// Expands a macro body for one call site: argument substitution, SHIFT, NARG and IF/ELIF/ELSE
+export class MacroExpander {
+  private uniqueCounter = 0;
+
+  constructor(private parser: RGBDSParser, private evaluator: ExpressionEvaluator) {}
+
+  // One level of expansion; nested macro calls come back as macro call lines
+  expand(macro: MacroDefinition, args: string[]): ParsedLine[] {
+    const expanded: ParsedLine[] = [];
+    const conditionals = new ConditionalTracker(this.evaluator);
+    const unique = `_u${++this.uniqueCounter}`;
+    let shift = 0;
+
+    for (const line of macro.instructions) {
+      const text = this.substitute(line.raw, args, shift, unique);
+      const code = this.parser.removeComments(text).trim();
+      const active = conditionals.processLine(code);
+      if (!active || ConditionalTracker.isConditional(code)) {
+        continue;
+      }
+
+      const keyword = code.split(/\s+/)[0].toUpperCase();
+      const condition = code.slice(keyword.length).trim();
+      if (keyword === 'SHIFT') {
+        const count = condition ? this.evaluator.evaluate(condition) : 1;
+        shift += count ?? 1;
+        continue;
+      }
+
+      expanded.push(this.parser.parseLine(text, line.lineNumber));
+    }
+
+    return expanded;
+  }
+
+  // Replace \1-\9, \<n>, \#, \@ and _NARG/NARG with this call's values
+  private substitute(text: string, args: string[], shift: number, unique: string): string {
+    const remaining = args.slice(shift);
+
+    return text
+      .replace(/\\<([^>]+)>/g, (_, index: string) => {
+        const value = /^\d+$/.test(index) ? parseInt(index, 10) : this.evaluator.evaluate(index);
+        return value !== undefined ? remaining[value - 1] ?? '' : '';
+      })
+      .replace(/\\([1-9])/g, (_, digit: string) => remaining[parseInt(digit, 10) - 1] ?? '')
+      .replace(/\\#/g, () => remaining.join(', '))
+      .replace(/\\@/g, () => unique)
+      .replace(/\b_?NARG\b/g, () => `${remaining.length}`);
+  }
+}
@@ -0,0 +1,145 @@
+import { ParsedLine } from './types';
+import { RGBDSParser } from './rgbdsParser';
+import { ExpressionEvaluator } from './expressionEvaluator';
+import { ConditionalTracker } from './conditionalAssembly';
+
+export interface RepeatExpansion {
+  iterations?: number;  // Undefined when the count could not be evaluated (counted once)
+  variable?: string;    // FOR loop variable
+  lines: ParsedLine[];  // Body lines, unrolled for FOR loops
+  repeat: number;       // How many times `lines` are assembled (REPT bodies are identical each time)
+}
+
+// Unrolls REPT/FOR blocks. Nested blocks are left in place for the caller to expand in turn.
+export class RepeatExpander {
+  // Stop runaway FOR loops such as "FOR V, 0, $7FFFFFFF"
+  private static readonly MAX_ITERATIONS = 65536;
+
+  constructor(private parser: RGBDSParser, private evaluator: ExpressionEvaluator) {}
+
+  static isBlockStart(parsed: ParsedLine): boolean {
+    return parsed.isDirective && (parsed.instruction === 'REPT' || parsed.instruction === 'FOR');
+  }
+
+  static isBlockEnd(parsed: ParsedLine): boolean {
+    return parsed.isDirective && parsed.instruction === 'ENDR';
+  }
+
+  // Body lines of the block starting at `start`, and the index of its ENDR (or lines.length when unterminated)
+  static collectBody(lines: ParsedLine[], start: number): { body: ParsedLine[]; end: number } {
+    let depth = 0;
+    for (let i = start + 1; i < lines.length; i++) {
+      if (RepeatExpander.isBlockStart(lines[i])) {
+        depth++;
+      } else if (RepeatExpander.isBlockEnd(lines[i])) {
+        if (depth === 0) {
+          return { body: lines.slice(start + 1, i), end: i };
+        }
+        depth--;
+      }
+    }
+    return { body: lines.slice(start + 1), end: lines.length };
+  }
+
+  // Symbol a FOR block binds in its body; undefined for REPT
+  forVariable(header: ParsedLine): string | undefined {
+    return header.instruction === 'FOR' ? this.headerArguments(header)[0] : undefined;
+  }
+
+  expandBlock(header: ParsedLine, body: ParsedLine[]): RepeatExpansion {
+    const args = this.headerArguments(header);
+
+    if (header.instruction === 'REPT') {
+      const count = args.length > 0 ? this.evaluator.evaluate(args[0]) : undefined;
+      return {
+        iterations: count !== undefined ? Math.max(0, count) : undefined,
+        lines: this.applyConditionals(body, text => text),
+        repeat: count !== undefined ? Math.max(0, count) : 1
+      };
+    }
+
+    // FOR V, stop / FOR V, start, stop / FOR V, start, stop, step
+    const variable = args[0];
+    const values = args.slice(1).map(arg => this.evaluator.evaluate(arg));
+    if (!variable || values.length === 0 || values.some(value => value === undefined)) {
+      return { variable, lines: this.applyConditionals(body, text => text), repeat: 1 };
+    }
+
+    const [start, stop, step] = values.length === 1 ? [0, values[0]!, 1] : [values[0]!, values[1]!, values[2] ?? 1];
+    const lines: ParsedLine[] = [];
+    let iterations = 0;
+
+    if (step !== 0) {
+      for (let value = start; step > 0 ? value < stop : value > stop; value += step) {
+        if (iterations >= RepeatExpander.MAX_ITERATIONS) {
+          break;
+        }
+        lines.push(...this.applyConditionals(body, text => this.substituteVariable(text, variable, value)));
+        iterations++;
+      }
+    }
+
+    return { iterations, variable, lines, repeat: 1 };
+  }
+
+  // One pass over the body: substitute, drop IF branches that aren't taken and re-parse.
+  // Lines of nested blocks pass through untouched since their conditions may use the inner variable.
+  private applyConditionals(body: ParsedLine[], substitute: (text: string) => string): ParsedLine[] {
+    const conditionals = new ConditionalTracker(this.evaluator);
+    const lines: ParsedLine[] = [];
+    let depth = 0;
+
+    for (const line of body) {
+      const text = substitute(line.raw);
+      if (depth === 0) {
+        const code = this.parser.removeComments(text);
+        if (!conditionals.processLine(code) || ConditionalTracker.isConditional(code)) {
+          continue;
+        }
+      }
+
+      if (RepeatExpander.isBlockStart(line)) {
+        depth++;
+      } else if (RepeatExpander.isBlockEnd(line)) {
+        depth--;
+      }
+      lines.push(text === line.raw ? line : this.parser.parseLine(text, line.lineNumber));
+    }
+
+    return lines;
+  }
+
+  // FOR variables are numeric symbols: replace uses in expressions and {V} interpolations
+  private substituteVariable(text: string, variable: string, value: number): string {
+    const escaped = variable.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return text
+      .replace(new RegExp(`\\{(?:d:)?${escaped}\\}`, 'g'), `${value}`)
+      .replace(new RegExp(`(?<![\\w.#@$])${escaped}(?![\\w#@])`, 'g'), `${value}`);
+  }
+
+  private headerArguments(header: ParsedLine): string[] {
+    return this.splitArguments(this.parser.removeComments(header.raw).trim().replace(/^(\.?\w+:+\s*)?(REPT|FOR)\b/i, ''));
+  }
+
+  private splitArguments(text: string): string[] {
+    const args: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of text) {
+      if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        args.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    if (current.trim()) {
+      args.push(current.trim());
+    }
+    return args;
+  }
+}
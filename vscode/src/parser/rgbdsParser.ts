@@ -1,4 +1,9 @@
-import { ParsedLine, MacroDefinition, RoutineDefinition, RoutineArgument } from './types';
+import * as path from 'path';
+import { ParsedLine, FarCall, FarCallTable, MacroDefinition, RoutineDefinition, RoutineArgument, ConstantDefinition, ConstantKind, SectionHeader, SectionType } from './types';
+import { ExpressionEvaluator } from './expressionEvaluator';
+import { ConditionalTracker } from './conditionalAssembly';
+import { OpcodeDatabase } from '../opcodes/opcodeData';
+import { SourceCache } from './sourceCache';
 
 export class RoutineRegistry {
   private routines: Map<string, RoutineDefinition> = new Map();
@@ -11,6 +16,14 @@ export class RoutineRegistry {
     this.routines.set(routine.name.toUpperCase(), routine);
   }
 
+  removeFile(filePath: string): void {
+    for (const [name, routine] of this.routines) {
+      if (routine.filePath === filePath) {
+        this.routines.delete(name);
+      }
+    }
+  }
+
   get(name: string): RoutineDefinition | undefined {
     return this.routines.get(name.toUpperCase());
   }
@@ -48,9 +61,83 @@ export class MacroRegistry {
   }
 }
 
+export class ConstantTable {
+  private constants: Map<string, ConstantDefinition> = new Map();
+  private predefined: Map<string, ConstantDefinition> = new Map();
+  private rsCounter = 0;
+
+  clear(): void {
+    this.constants = new Map(this.predefined);
+    this.rsCounter = 0;
+  }
+
+  // Symbols given on the command line (rgbasm -D NAME=VALUE); they survive clear()
+  setPredefined(symbols: Map<string, string>): void {
+    for (const name of this.predefined.keys()) {
+      this.constants.delete(name);
+    }
+    this.predefined.clear();
+
+    for (const [name, value] of symbols) {
+      const numeric = /^-?(\$[0-9A-Fa-f]+|%[01]+|\d+)$/.test(value.trim());
+      const constant: ConstantDefinition = numeric
+        ? { name, kind: 'EQU', expression: value, filePath: '', lineNumber: -1 }
+        : { name, kind: 'EQUS', expression: value, stringValue: value, filePath: '', lineNumber: -1 };
+      this.predefined.set(name, constant);
+      this.constants.set(name, constant);
+    }
+  }
+
+  define(constant: ConstantDefinition): void {
+    this.constants.set(constant.name, constant);
+  }
+
+  // Constants defined in a file, except predefined ones it redefined
+  removeFile(filePath: string): void {
+    for (const [name, constant] of this.constants) {
+      if (constant.filePath === filePath) {
+        const predefined = this.predefined.get(name);
+        if (predefined) {
+          this.constants.set(name, predefined);
+        } else {
+          this.constants.delete(name);
+        }
+      }
+    }
+  }
+
+  // Symbols are case-sensitive in RGBDS, unlike macro names
+  get(name: string): ConstantDefinition | undefined {
+    return this.constants.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.constants.has(name);
+  }
+
+  getAll(): ConstantDefinition[] {
+    return Array.from(this.constants.values());
+  }
+
+  // _RS counter used by RSSET/RSRESET/RB/RW/RL
+  getRS(): number {
+    return this.rsCounter;
+  }
+
+  setRS(value: number): void {
+    this.rsCounter = value;
+  }
+
+  allocateRS(size: number): number {
+    const offset = this.rsCounter;
+    this.rsCounter += size;
+    return offset;
+  }
+}
+
 export class RGBDSParser {
   private static readonly DIRECTIVES_WITH_BYTES = ['DB', 'DW', 'DL', 'DS'];
-  private static readonly SECTION_DIRECTIVES = ['SECTION', 'INCLUDE', 'INCBIN', 'EQU', 'SET', 'EQUS', 'MACRO', 'ENDM', 'IF', 'ELSE', 'ELIF', 'ENDC', 'REPT', 'ENDR', 'EXPORT', 'GLOBAL', 'PURGE', 'OPT', 'PUSHO', 'POPO', 'PUSHS', 'POPS', 'FAIL', 'WARN', 'ASSERT', 'STATIC_ASSERT'];
+  private static readonly SECTION_DIRECTIVES = ['SECTION', 'INCLUDE', 'INCBIN', 'EQU', 'SET', 'EQUS', 'DEF', 'REDEF', 'RSSET', 'RSRESET', 'MACRO', 'ENDM', 'IF', 'ELSE', 'ELIF', 'ENDC', 'REPT', 'FOR', 'BREAK', 'ENDR', 'SHIFT', 'EXPORT', 'GLOBAL', 'PURGE', 'OPT', 'PUSHO', 'POPO', 'PUSHS', 'POPS', 'FAIL', 'WARN', 'ASSERT', 'STATIC_ASSERT', 'ENDSECTION', 'ALIGN', 'LOAD', 'ENDL', 'UNION', 'NEXTU', 'ENDU', 'CHARMAP', 'NEWCHARMAP', 'SETCHARMAP', 'PUSHC', 'POPC', 'PRINT', 'PRINTLN', 'PRINTT', 'PRINTV', 'PRINTI', 'PRINTF'];
   private static readonly PREDEF_KEYWORDS: { [key: string]: 'predef' | 'predef_jump' } = {
     'PREDEF': 'predef',
     'PREDEF_JUMP': 'predef_jump',
@@ -67,15 +154,32 @@ export class RGBDSParser {
     /(?:register\s+)?([a-z]{1,2})(?:\s*[:=\-]\s*)(.+)/i,
   ];
 
+  // Constant definitions: "DEF NAME EQU 3", "NAME EQU 3", "DEF NAME = 3", "DEF wFoo RB 2", ...
+  private static readonly CONSTANT_PATTERN = /^(?:(?:RE)?DEF\s+)?([A-Za-z_][\w#@]*)\s*(?:\b(EQUS|EQU|SET|RB|RW)\b|(=)(?!=))\s*(.*)$/i;
+  // RL is also a CB-prefixed instruction, so only accept it after DEF
+  private static readonly RS_LONG_PATTERN = /^(?:RE)?DEF\s+([A-Za-z_][\w#@]*)\s+RL\b\s*(.*)$/i;
+
+  // SECTION [UNION|FRAGMENT] "name", TYPE[addr], BANK[n], ALIGN[bits, offset]
+  private static readonly SECTION_PATTERN = /^SECTION\s+(?:(UNION|FRAGMENT)\s+)?"([^"]*)"\s*,\s*(\w+)\s*(?:\[([^\]]*)\])?(.*)$/i;
+  private static readonly SECTION_TYPES: SectionType[] = ['ROM0', 'ROMX', 'VRAM', 'SRAM', 'WRAM0', 'WRAMX', 'OAM', 'HRAM'];
+
   // Valid register names
   private static readonly VALID_REGISTERS = ['a', 'b', 'c', 'd', 'e', 'h', 'l', 'af', 'bc', 'de', 'hl', 'sp', 'pc'];
 
-  private macroRegistry: MacroRegistry;
-  private routineRegistry: RoutineRegistry;
+  private farCalls: Map<string, FarCall> = new Map();
+
+  constructor(
+    private macroRegistry: MacroRegistry,
+    private routineRegistry: RoutineRegistry,
+    private constantTable: ConstantTable,
+    private evaluator: ExpressionEvaluator,
+    private opcodes: OpcodeDatabase,
+    private sources: SourceCache
+  ) {}
 
-  constructor(macroRegistry?: MacroRegistry, routineRegistry?: RoutineRegistry) {
-    this.macroRegistry = macroRegistry || new MacroRegistry();
-    this.routineRegistry = routineRegistry || new RoutineRegistry();
+  // Far-call macros from the settings, by name; they replace any earlier table
+  setFarCalls(table: FarCallTable): void {
+    this.farCalls = new Map(Object.entries(table).map(([name, farCall]) => [name.toUpperCase(), farCall]));
   }
 
   getMacroRegistry(): MacroRegistry {
@@ -86,6 +190,14 @@ export class RGBDSParser {
     return this.routineRegistry;
   }
 
+  getConstantTable(): ConstantTable {
+    return this.constantTable;
+  }
+
+  getEvaluator(): ExpressionEvaluator {
+    return this.evaluator;
+  }
+
   parseLine(line: string, lineNumber: number): ParsedLine {
     const result: ParsedLine = {
       lineNumber,
@@ -112,9 +224,9 @@ export class RGBDSParser {
     }
 
     // Check for label
-    const labelMatch = workingLine.match(/^(\w+:|\.[\w.]+:?)/);
+    const labelMatch = workingLine.match(/^(\w+(?:\.\w+)?::?|\.[\w.]+:?)/);
     if (labelMatch) {
-      result.label = labelMatch[1].replace(/:$/, '');
+      result.label = labelMatch[1].replace(/:+$/, '');
       workingLine = workingLine.slice(labelMatch[0].length).trim();
     }
 
@@ -123,6 +235,15 @@ export class RGBDSParser {
       return result;
     }
 
+    // Constant definitions are directives that emit no bytes
+    const constant = this.matchConstantDefinition(workingLine);
+    if (constant) {
+      result.isDirective = true;
+      result.instruction = constant.kind;
+      result.constantName = constant.name;
+      return result;
+    }
+
     // Parse instruction or directive
     const parts = this.splitInstruction(workingLine);
     if (parts.length === 0) {
@@ -144,6 +265,19 @@ export class RGBDSParser {
       return result;
     }
 
+    // Configured far-call macros are costed as a whole, even where the macro is defined
+    const farCall = this.farCalls.get(mnemonic);
+    if (farCall) {
+      result.isPredefCall = true;
+      result.predefType = farCall.jump ? 'predef_jump' : 'predef';
+      result.farCall = farCall;
+      result.instruction = mnemonic;
+      if (parts.length > 1) {
+        result.operands = this.parseOperands(parts.slice(1).join(' '));
+      }
+      return result;
+    }
+
     // Check if it's a macro call
     if (this.macroRegistry.has(mnemonic)) {
       result.isMacroCall = true;
@@ -159,7 +293,7 @@ export class RGBDSParser {
       return result;
     }
 
-    // Check if it's a predef call (predef, predef_jump, farcall, etc.)
+    // Check if it's a predef call (predef, predef_jump, farcall, etc.) to a macro that isn't defined
     const predefType = RGBDSParser.PREDEF_KEYWORDS[mnemonic];
     if (predefType) {
       result.isPredefCall = true;
@@ -187,7 +321,42 @@ export class RGBDSParser {
     return result;
   }
 
-  private removeComments(line: string): string {
+  // Parse a SECTION line; undefined when it isn't one or the memory type is unknown
+  parseSectionHeader(line: string): SectionHeader | undefined {
+    const match = this.removeComments(line).trim().match(RGBDSParser.SECTION_PATTERN);
+    if (!match) {
+      return undefined;
+    }
+
+    const type = match[3].toUpperCase() as SectionType;
+    if (!RGBDSParser.SECTION_TYPES.includes(type)) {
+      return undefined;
+    }
+
+    const header: SectionHeader = { name: match[2], type };
+    if (match[1]) {
+      header.modifier = match[1].toUpperCase() as 'UNION' | 'FRAGMENT';
+    }
+    if (match[4]) {
+      header.address = this.evaluator.evaluate(match[4]);
+    }
+
+    const bankMatch = match[5].match(/\bBANK\s*\[([^\]]+)\]/i);
+    // Without BANK[n], ROMX/VRAM/SRAM/WRAMX sections float to a bank the linker picks
+    if (bankMatch) {
+      header.bank = this.evaluator.evaluate(bankMatch[1]);
+    }
+
+    const alignMatch = match[5].match(/\bALIGN\s*\[([^\],]+)(?:,([^\]]+))?\]/i);
+    if (alignMatch) {
+      header.alignBits = this.evaluator.evaluate(alignMatch[1]);
+      header.alignOffset = alignMatch[2] ? this.evaluator.evaluate(alignMatch[2]) : 0;
+    }
+
+    return header;
+  }
+
+  removeComments(line: string): string {
     // Handle semicolon comments (most common)
     let result = line;
 
@@ -301,7 +470,7 @@ export class RGBDSParser {
     return operands;
   }
 
-  private isDirective(mnemonic: string): boolean {
+  isDirective(mnemonic: string): boolean {
     return RGBDSParser.DIRECTIVES_WITH_BYTES.includes(mnemonic) ||
            RGBDSParser.SECTION_DIRECTIVES.includes(mnemonic);
   }
@@ -321,8 +490,9 @@ export class RGBDSParser {
     }
   }
 
+  // Without arguments DB/DW/DL reserve a single item, as used for RAM variables
   private countDBBytes(args: string): number {
-    if (!args.trim()) return 0;
+    if (!args.trim()) return 1;
 
     // Split by comma, but handle strings
     const items = this.parseOperands(args);
@@ -345,13 +515,13 @@ export class RGBDSParser {
   }
 
   private countDWBytes(args: string): number {
-    if (!args.trim()) return 0;
+    if (!args.trim()) return 2;
     const items = this.parseOperands(args);
     return items.length * 2;
   }
 
   private countDLBytes(args: string): number {
-    if (!args.trim()) return 0;
+    if (!args.trim()) return 4;
     const items = this.parseOperands(args);
     return items.length * 4;
   }
@@ -365,40 +535,91 @@ export class RGBDSParser {
 
     const countStr = parts[0].trim();
 
-    // Parse the count value
+    // Parse the count value (may reference constants, e.g. "ds 2 * NUM_PARTY")
     const count = this.parseNumericValue(countStr);
     return count;
   }
 
   private parseNumericValue(value: string): number {
-    value = value.trim();
+    const result = this.evaluator.evaluate(value.trim());
+    return result !== undefined && result > 0 ? result : 0;
+  }
 
-    // Hexadecimal $FF or 0xFF
-    if (value.startsWith('$')) {
-      return parseInt(value.slice(1), 16) || 0;
+  // Recognise DEF/EQU/SET/=/RB/RW/RL forms, returning the constant name and its kind
+  private matchConstantDefinition(workingLine: string): { name: string; kind: ConstantKind; expression: string } | null {
+    const longMatch = workingLine.match(RGBDSParser.RS_LONG_PATTERN);
+    if (longMatch) {
+      return { name: longMatch[1], kind: 'RL', expression: longMatch[2].trim() };
     }
-    if (value.startsWith('0x') || value.startsWith('0X')) {
-      return parseInt(value.slice(2), 16) || 0;
+
+    const match = workingLine.match(RGBDSParser.CONSTANT_PATTERN);
+    if (!match) {
+      return null;
     }
 
-    // Binary %10101010
-    if (value.startsWith('%')) {
-      return parseInt(value.slice(1), 2) || 0;
+    const keyword = match[2] ? match[2].toUpperCase() : 'SET';  // '=' is an alias for SET
+    return { name: match[1], kind: keyword as ConstantKind, expression: match[4].trim() };
+  }
+
+  // Record a constant definition in the constant table, evaluating it where possible
+  private defineConstant(workingLine: string, filePath: string, lineNumber: number): boolean {
+    const trimmed = workingLine.trim();
+
+    // RSRESET / RSSET adjust the _RS counter
+    if (/^RSRESET\b/i.test(trimmed)) {
+      this.constantTable.setRS(0);
+      return true;
+    }
+    const rssetMatch = trimmed.match(/^RSSET\s+(.+)$/i);
+    if (rssetMatch) {
+      this.constantTable.setRS(this.evaluator.evaluate(rssetMatch[1]) ?? 0);
+      return true;
+    }
+
+    const constant = this.matchConstantDefinition(trimmed);
+    if (!constant) {
+      return false;
     }
 
-    // Octal &777
-    if (value.startsWith('&')) {
-      return parseInt(value.slice(1), 8) || 0;
+    const definition: ConstantDefinition = {
+      name: constant.name,
+      kind: constant.kind,
+      expression: constant.expression,
+      filePath,
+      lineNumber
+    };
+
+    switch (constant.kind) {
+      case 'EQUS': {
+        const strMatch = constant.expression.match(/^"(.*)"$/);
+        definition.stringValue = strMatch ? strMatch[1] : constant.expression;
+        break;
+      }
+      case 'RB':
+      case 'RW':
+      case 'RL': {
+        const unit = constant.kind === 'RB' ? 1 : constant.kind === 'RW' ? 2 : 4;
+        const count = constant.expression ? this.evaluator.evaluate(constant.expression) ?? 1 : 1;
+        definition.value = this.constantTable.allocateRS(count * unit);
+        break;
+      }
+      default: {
+        // SET can reference its own previous value ("DEF x = x + 1")
+        definition.value = this.evaluator.evaluate(constant.expression);
+        break;
+      }
     }
 
-    // Decimal
-    return parseInt(value, 10) || 0;
+    this.constantTable.define(definition);
+    return true;
   }
+
   // Parse entire document to extract macro definitions and routine definitions
   // baseDir is used to resolve INCLUDE paths
   // filePath is used to store routine file locations
   parseDocument(lines: string[], baseDir?: string, filePath?: string): void {
     this.macroRegistry.clear();
+    this.constantTable.setRS(0);
     // Note: We don't clear routineRegistry here as it may contain routines from other files
     this.parseDocumentInternal(lines, baseDir, new Set(), filePath);
   }
@@ -407,6 +628,7 @@ export class RGBDSParser {
   clearAll(): void {
     this.macroRegistry.clear();
     this.routineRegistry.clear();
+    this.constantTable.clear();
   }
 
   // Parse argument documentation from comment lines
@@ -470,10 +692,15 @@ export class RGBDSParser {
     let currentMacroName = '';
     let macroStartLine = 0;
     let macroLines: string[] = [];
+    const conditionals = new ConditionalTracker(this.evaluator);
 
     // Track comment lines for routine argument documentation
     let pendingComments: string[] = [];
 
+    // Files this one includes, for invalidating it when one of them changes
+    const included: string[] = [];
+    let unresolved = false;
+
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
       const workingLine = this.removeComments(line).trim();
@@ -482,11 +709,43 @@ export class RGBDSParser {
       const commentMatch = line.match(/;(.*)$/);
       const comment = commentMatch ? commentMatch[1].trim() : null;
 
+      // Collect lines inside macro until its ENDM
+      if (inMacro) {
+        if (/^\s*ENDM\b/i.test(workingLine)) {
+          // Calculate macro metrics
+          const macroDef = this.calculateMacroMetrics(
+            currentMacroName,
+            macroStartLine,
+            i,
+            macroLines
+          );
+          this.macroRegistry.register(macroDef);
+
+          inMacro = false;
+          currentMacroName = '';
+          macroLines = [];
+        } else {
+          macroLines.push(line);
+        }
+        continue;
+      }
+
+      // Skip everything in IF/ELIF/ELSE branches that wouldn't be assembled
+      if (!conditionals.processLine(workingLine) || ConditionalTracker.isConditional(workingLine)) {
+        pendingComments = [];
+        continue;
+      }
+
       // Check for INCLUDE directive to parse external macros
       const includeMatch = workingLine.match(/^INCLUDE\s+["']?([^"'\s]+)["']?/i);
       if (includeMatch && baseDir) {
         const includePath = includeMatch[1];
-        this.parseIncludedFile(includePath, baseDir, parsedFiles || new Set());
+        const resolved = this.parseIncludedFile(includePath, baseDir, parsedFiles || new Set());
+        if (resolved) {
+          included.push(resolved);
+        } else {
+          unresolved = true;
+        }
         pendingComments = [];
         continue;
       }
@@ -496,7 +755,7 @@ export class RGBDSParser {
       const macroMatch = workingLine.match(/^(\w+):\s*MACRO\b/i) ||
                          workingLine.match(/^MACRO\s+(\w+)/i);
 
-      if (macroMatch && !inMacro) {
+      if (macroMatch) {
         inMacro = true;
         currentMacroName = macroMatch[1].toUpperCase();
         macroStartLine = i;
@@ -505,26 +764,9 @@ export class RGBDSParser {
         continue;
       }
 
-      // Check for ENDM
-      if (/^\s*ENDM\b/i.test(workingLine) && inMacro) {
-        // Calculate macro metrics
-        const macroDef = this.calculateMacroMetrics(
-          currentMacroName,
-          macroStartLine,
-          i,
-          macroLines
-        );
-        this.macroRegistry.register(macroDef);
-
-        inMacro = false;
-        currentMacroName = '';
-        macroLines = [];
-        continue;
-      }
-
-      // Collect lines inside macro
-      if (inMacro) {
-        macroLines.push(line);
+      // Record DEF/EQU/SET/RB constants in the workspace constant table
+      if (this.defineConstant(workingLine, filePath || '', i)) {
+        pendingComments = [];
         continue;
       }
 
@@ -564,54 +806,21 @@ export class RGBDSParser {
         pendingComments = [];
       }
     }
-  }
-
-  // Parse an included file to extract its macros
-  private parseIncludedFile(includePath: string, baseDir: string, parsedFiles: Set<string>): void {
-    try {
-      const path = require('path');
-      const fs = require('fs');
 
-      // Resolve the include path relative to the base directory
-      const fullPath = path.resolve(baseDir, includePath);
-
-      // Avoid parsing the same file twice (circular includes)
-      if (parsedFiles.has(fullPath)) {
-        return;
-      }
-      parsedFiles.add(fullPath);
-
-      // Check if file exists
-      if (!fs.existsSync(fullPath)) {
-        // Try common include directories
-        const altPaths = [
-          path.resolve(baseDir, 'inc', includePath),
-          path.resolve(baseDir, 'include', includePath),
-          path.resolve(baseDir, 'src', includePath),
-        ];
-
-        for (const altPath of altPaths) {
-          if (fs.existsSync(altPath)) {
-            if (!parsedFiles.has(altPath)) {
-              parsedFiles.add(altPath);
-              const content = fs.readFileSync(altPath, 'utf8');
-              const lines = content.split(/\r?\n/);
-              this.parseDocumentInternal(lines, path.dirname(altPath), parsedFiles, altPath);
-            }
-            return;
-          }
-        }
-        return; // File not found, skip
-      }
+    if (filePath) {
+      this.sources.setIncludes(filePath, included, unresolved);
+    }
+  }
 
-      // Read and parse the included file
-      const content = fs.readFileSync(fullPath, 'utf8');
-      const lines = content.split(/\r?\n/);
-      this.parseDocumentInternal(lines, path.dirname(fullPath), parsedFiles, fullPath);
-    } catch (e) {
-      // Silently ignore errors (file not found, permission denied, etc.)
-      console.log(`Could not parse included file: ${includePath}`, e);
+  // Parse an included file to extract its macros; returns the path it resolved to
+  private parseIncludedFile(includePath: string, baseDir: string, parsedFiles: Set<string>): string | undefined {
+    const included = this.sources.resolveInclude(includePath, baseDir);
+    // Avoid parsing the same file twice (circular includes)
+    if (included && !parsedFiles.has(included.filePath)) {
+      parsedFiles.add(included.filePath);
+      this.parseDocumentInternal(included.lines, path.dirname(included.filePath), parsedFiles, included.filePath);
     }
+    return included?.filePath;
   }
 
   private calculateMacroMetrics(
@@ -620,9 +829,6 @@ export class RGBDSParser {
     endLine: number,
     lines: string[]
   ): MacroDefinition {
-    // Import opcodeDatabase dynamically to avoid circular dependency
-    const { opcodeDatabase } = require('../opcodes/opcodeData');
-
     let totalBytes = 0;
     let minCycles = 0;
     let maxCycles = 0;
@@ -633,7 +839,7 @@ export class RGBDSParser {
       instructions.push(parsed);
 
       if (parsed.instruction && !parsed.isDirective && !parsed.isMacroCall) {
-        const opcode = opcodeDatabase.lookup(parsed.instruction, parsed.operands);
+        const opcode = this.opcodes.lookup(parsed.instruction, parsed.operands);
         if (opcode) {
           totalBytes += opcode.bytes;
           minCycles += opcode.cycles[opcode.cycles.length - 1]; // Use min (not taken)
@@ -662,7 +868,3 @@ export class RGBDSParser {
     };
   }
 }
-
-export const macroRegistry = new MacroRegistry();
-export const routineRegistry = new RoutineRegistry();
-export const parser = new RGBDSParser(macroRegistry, routineRegistry);
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// A file's lines as read from disk (mtimeMs) or taken from an open editor (version)
+interface SourceFile {
+  lines: string[];
+  mtimeMs?: number;
+  version?: number;
+  stale?: boolean;         // Read again on the next load if the mtime changed
+  includeNames?: string[];  // INCLUDE arguments, found on first use
+}
+
+// INCLUDE "file" or INCLUDE file
+const INCLUDE_PATTERN = /^\s*INCLUDE\s+["']?([^"'\s;]+)["']?/i;
+
+// Subdirectories of the including file's directory tried after the configured include paths
+const INCLUDE_DIRECTORIES = ['inc', 'include', 'src'];
+
+// Source lines by path, so parsing an INCLUDE doesn't touch the disk, plus which files include which,
+// so a change only re-indexes the files that depend on it
+export class SourceCache {
+  private files: Map<string, SourceFile> = new Map();
+  private includes: Map<string, Set<string>> = new Map();    // File -> files it includes
+  private includedBy: Map<string, Set<string>> = new Map();  // File -> files that include it
+  private unresolved: Set<string> = new Set();               // Files with an INCLUDE that wasn't found
+  private includePaths: string[] = [];
+
+  clear(): void {
+    this.files.clear();
+    this.includes.clear();
+    this.includedBy.clear();
+    this.unresolved.clear();
+  }
+
+  // Absolute directories searched after the including file's own, like rgbasm -I
+  setIncludePaths(includePaths: string[]): void {
+    this.includePaths = [...includePaths];
+  }
+
+  // Lines of an open editor; they win over the file on disk until the editor is closed
+  setDocument(filePath: string, lines: string[], version: number): void {
+    if (this.files.get(filePath)?.version !== version) {
+      this.files.set(filePath, { lines, version });
+    }
+  }
+
+  closeDocument(filePath: string): void {
+    if (this.files.get(filePath)?.version !== undefined) {
+      this.files.delete(filePath);
+    }
+  }
+
+  // The file may have changed on disk; the next load compares its mtime
+  invalidate(filePath: string): void {
+    const cached = this.files.get(filePath);
+    if (cached && cached.version === undefined) {
+      cached.stale = true;
+    }
+  }
+
+  invalidateAll(): void {
+    for (const filePath of this.files.keys()) {
+      this.invalidate(filePath);
+    }
+  }
+
+  // Lines of a file, read without blocking unless the cached copy is current; undefined when it doesn't exist
+  async load(filePath: string): Promise<string[] | undefined> {
+    const cached = this.files.get(filePath);
+    if (cached && !cached.stale) {
+      return cached.lines;
+    }
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (cached && cached.mtimeMs === stat.mtimeMs) {
+        cached.stale = false;
+        return cached.lines;
+      }
+      const content = await fs.promises.readFile(filePath, 'utf8');
+      return this.store(filePath, content, stat.mtimeMs);
+    } catch (e) {
+      this.files.delete(filePath);
+      return undefined;
+    }
+  }
+
+  // Loads everything a file includes, transitively, so parsing it afterwards never reads from disk;
+  // IF blocks aren't evaluated here, so this may load files that end up not being assembled
+  async loadIncludes(filePath: string, lines: string[], loaded: Set<string> = new Set()): Promise<void> {
+    loaded.add(filePath);
+    for (const includePath of this.findIncludes(filePath, lines)) {
+      for (const candidate of this.candidates(includePath, path.dirname(filePath))) {
+        const included = await this.load(candidate);
+        if (included) {
+          if (!loaded.has(candidate)) {
+            await this.loadIncludes(candidate, included, loaded);
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  // Cached lines, without touching the disk; files nobody loaded (or that vanished) are undefined
+  read(filePath: string): string[] | undefined {
+    return this.files.get(filePath)?.lines;
+  }
+
+  // The file an INCLUDE refers to and its lines: relative to the including file, then the include
+  // paths, then inc/, include/ or src/ next to the including file. Only loaded files are found, so
+  // an include that load/loadIncludes didn't reach counts as unresolved
+  resolveInclude(includePath: string, baseDir: string): { filePath: string; lines: string[] } | undefined {
+    for (const candidate of this.candidates(includePath, baseDir)) {
+      const lines = this.read(candidate);
+      if (lines) {
+        return { filePath: candidate, lines };
+      }
+    }
+    return undefined;
+  }
+
+  // Replaces the includes recorded for a file after it was parsed
+  setIncludes(filePath: string, included: string[], unresolved: boolean): void {
+    for (const target of this.includes.get(filePath) || []) {
+      this.includedBy.get(target)?.delete(filePath);
+    }
+    this.includes.set(filePath, new Set(included));
+    for (const target of included) {
+      if (!this.includedBy.has(target)) {
+        this.includedBy.set(target, new Set());
+      }
+      this.includedBy.get(target)!.add(filePath);
+    }
+    if (unresolved) {
+      this.unresolved.add(filePath);
+    } else {
+      this.unresolved.delete(filePath);
+    }
+  }
+
+  // Forget a deleted file; files that included it keep their edge until they are parsed again
+  removeFile(filePath: string): void {
+    this.setIncludes(filePath, [], false);
+    this.includes.delete(filePath);
+    this.files.delete(filePath);
+  }
+
+  // Files that include this one, directly or through other includes
+  getDependents(filePath: string): string[] {
+    const dependents = new Set<string>();
+    const pending = [filePath];
+    while (pending.length > 0) {
+      for (const includer of this.includedBy.get(pending.pop()!) || []) {
+        if (includer !== filePath && !dependents.has(includer)) {
+          dependents.add(includer);
+          pending.push(includer);
+        }
+      }
+    }
+    return Array.from(dependents);
+  }
+
+  // Files with an INCLUDE that wasn't found, which a newly created file may satisfy
+  getUnresolvedIncluders(): string[] {
+    return Array.from(this.unresolved);
+  }
+
+  private store(filePath: string, content: string, mtimeMs: number): string[] {
+    const lines = content.split(/\r?\n/);
+    this.files.set(filePath, { lines, mtimeMs });
+    return lines;
+  }
+
+  private findIncludes(filePath: string, lines: string[]): string[] {
+    const cached = this.files.get(filePath);
+    if (cached?.lines === lines && cached.includeNames) {
+      return cached.includeNames;
+    }
+    const names: string[] = [];
+    for (const line of lines) {
+      const match = line.match(INCLUDE_PATTERN);
+      if (match) {
+        names.push(match[1]);
+      }
+    }
+    if (cached?.lines === lines) {
+      cached.includeNames = names;
+    }
+    return names;
+  }
+
+  private candidates(includePath: string, baseDir: string): string[] {
+    const dirs = [baseDir, ...this.includePaths, ...INCLUDE_DIRECTORIES.map(dir => path.join(baseDir, dir))];
+    return Array.from(new Set(dirs.map(dir => path.resolve(dir, includePath))));
+  }
+}
@@ -0,0 +1,317 @@
+import { ParsedLine, SymbolDefinition, SymbolReference, SymbolKind } from './types';
+import { RGBDSParser } from './rgbdsParser';
+import { OpcodeDatabase } from '../opcodes/opcodeData';
+import { DocumentCosts, MetricsEngine, MetricsOptions, DEFAULT_METRICS_OPTIONS } from '../metrics/metricsEngine';
+
+// Workspace-wide index of label, macro, constant and section definitions and their uses
+export class SymbolIndex {
+  private static readonly REGISTERS = ['A', 'B', 'C', 'D', 'E', 'H', 'L', 'AF', 'BC', 'DE', 'HL', 'SP', 'PC', 'HLI', 'HLD', 'Z', 'NZ', 'NC'];
+  private static readonly FUNCTIONS = ['HIGH', 'LOW', 'BANK', 'DEF', 'SIZEOF', 'STARTOF', 'STRLEN', 'STRCAT', 'STRSUB', 'STRUPR', 'STRLWR', 'STRIN', 'STRRIN', 'STRFMT', 'STRCHAR', 'CHARLEN', 'CHARSUB', 'ISCONST', 'BITWIDTH', 'TZCOUNT', 'ABS', 'MUL', 'DIV', 'FMOD', 'POW', 'LOG', 'ROUND', 'CEIL', 'FLOOR', 'SIN', 'COS', 'TAN', 'ASIN', 'ACOS', 'ATAN', 'ATAN2', 'INCHARMAP'];
+  // Operand keywords of SECTION/LOAD/etc. that are not symbols
+  private static readonly KEYWORDS = ['ROM0', 'ROMX', 'VRAM', 'SRAM', 'WRAM0', 'WRAMX', 'OAM', 'HRAM', 'ALIGN', 'BANK', 'UNION', 'FRAGMENT', 'EQU', 'EQUS', 'SET', 'RB', 'RW', 'RL', 'DEF', 'REDEF', 'NARG', '_NARG', '_RS'];
+
+  private definitions: Map<string, SymbolDefinition[]> = new Map();
+  private fileDefinitions: Map<string, SymbolDefinition[]> = new Map();
+  private fileReferences: Map<string, SymbolReference[]> = new Map();
+
+  constructor(private parser: RGBDSParser, private engine: MetricsEngine, private opcodes: OpcodeDatabase) {}
+
+  clear(): void {
+    this.definitions.clear();
+    this.fileDefinitions.clear();
+    this.fileReferences.clear();
+  }
+
+  removeFile(filePath: string): void {
+    for (const def of this.fileDefinitions.get(filePath) || []) {
+      const defs = this.definitions.get(def.name);
+      if (defs) {
+        const remaining = defs.filter(d => d.filePath !== filePath);
+        if (remaining.length > 0) {
+          this.definitions.set(def.name, remaining);
+        } else {
+          this.definitions.delete(def.name);
+        }
+      }
+    }
+    this.fileDefinitions.delete(filePath);
+    this.fileReferences.delete(filePath);
+  }
+
+  // (Re)index one file, replacing anything previously recorded for it
+  // Lines already parsed and costed by Project.analyze are reused, so only macro bodies are costed here
+  indexFile(filePath: string, lines: string[], options: MetricsOptions = DEFAULT_METRICS_OPTIONS, analyzed?: { parsedLines: ParsedLine[]; costs: DocumentCosts }): void {
+    this.removeFile(filePath);
+    const parseLine = (i: number) => analyzed ? analyzed.parsedLines[i] : this.parser.parseLine(lines[i], i);
+
+    const defs: SymbolDefinition[] = [];
+    const refs: SymbolReference[] = [];
+    let scope = '';
+    let section: string | undefined;
+    let inMacro = false;
+    let currentMacro: SymbolDefinition | undefined;
+
+    // Per-line costs outside macro bodies, used to total up symbol sizes
+    const lineBytes: number[] = new Array(lines.length).fill(0);
+    const lineCycles: number[] = new Array(lines.length).fill(0);
+
+    for (let i = 0; i < lines.length; i++) {
+      const code = this.parser.removeComments(lines[i]);
+      const trimmed = code.trim();
+      if (!trimmed) {
+        continue;
+      }
+
+      // Macro definitions: "Name: MACRO" or "MACRO Name"
+      const macroMatch = code.match(/^(\s*)([A-Za-z_][\w#@]*):\s*MACRO\b/i) ||
+                         code.match(/^(\s*MACRO\s+)([A-Za-z_][\w#@]*)/i);
+      if (macroMatch) {
+        currentMacro = this.createDefinition(macroMatch[2], 'macro', filePath, i, macroMatch[1].length);
+        currentMacro.bytes = 0;
+        currentMacro.cycles = 0;
+        defs.push(currentMacro);
+        inMacro = true;
+        continue;
+      }
+      if (/^ENDM\b/i.test(trimmed)) {
+        if (currentMacro) {
+          currentMacro.endLine = i;
+        }
+        inMacro = false;
+        currentMacro = undefined;
+        continue;
+      }
+      if (inMacro && currentMacro) {
+        const cost = this.engine.computeLineCost(parseLine(i), options);
+        currentMacro.bytes! += cost.bytes;
+        currentMacro.cycles! += cost.cycles;
+      }
+
+      let offset = 0;
+      let definitionColumn = -1;
+
+      if (!inMacro) {
+        // Global label (optionally "Parent.local:") or local label
+        const globalMatch = code.match(/^(\s*)([A-Za-z_][\w#@]*)(\.[\w#@]+)?(::?)/);
+        const localMatch = code.match(/^(\s*)(\.[\w#@]+)(::?)?(?=\s|$)/);
+        if (globalMatch && !globalMatch[3]) {
+          scope = globalMatch[2];
+          const def = this.createDefinition(scope, 'label', filePath, i, globalMatch[1].length);
+          def.exported = globalMatch[4] === '::';
+          def.section = section;
+          defs.push(def);
+          offset = globalMatch[0].length;
+        } else if (globalMatch) {
+          const def = this.createDefinition(globalMatch[2] + globalMatch[3], 'local', filePath, i, globalMatch[1].length);
+          def.parent = globalMatch[2];
+          def.section = section;
+          defs.push(def);
+          offset = globalMatch[0].length;
+        } else if (localMatch) {
+          const def = this.createDefinition(this.qualify(localMatch[2], scope), 'local', filePath, i, localMatch[1].length);
+          def.parent = scope || undefined;
+          def.section = section;
+          defs.push(def);
+          offset = localMatch[0].length;
+        }
+
+        const sectionMatch = code.match(/^\s*SECTION\s+(?:(?:UNION|FRAGMENT)\s+)?"([^"]+)"/i);
+        if (sectionMatch) {
+          section = sectionMatch[1];
+          scope = '';
+          defs.push(this.createDefinition(section, 'section', filePath, i, code.indexOf('"') + 1));
+          continue;
+        }
+
+        const parsed = parseLine(i);
+        const cost = analyzed ? analyzed.costs.lines.get(i) : this.engine.computeLineCost(parsed, options);
+        lineBytes[i] = cost?.bytes ?? 0;
+        lineCycles[i] = cost?.cycles ?? 0;
+
+        if (parsed.constantName) {
+          const column = this.findWord(code, parsed.constantName, offset);
+          defs.push(this.createDefinition(parsed.constantName, 'constant', filePath, i, column));
+          definitionColumn = column;
+        }
+      }
+
+      this.collectReferences(code, offset, i, filePath, inMacro ? '' : scope, refs, definitionColumn);
+    }
+
+    this.computeSpans(defs, lines.length, lineBytes, lineCycles);
+
+    for (const def of defs) {
+      const existing = this.definitions.get(def.name) || [];
+      existing.push(def);
+      this.definitions.set(def.name, existing);
+    }
+    this.fileDefinitions.set(filePath, defs);
+    this.fileReferences.set(filePath, refs);
+  }
+
+  getDefinitions(name: string): SymbolDefinition[] {
+    const defs = this.definitions.get(name);
+    if (defs) {
+      return defs;
+    }
+    // Macro names are matched case-insensitively elsewhere in the extension
+    const upper = name.toUpperCase();
+    for (const [key, candidates] of this.definitions) {
+      if (key.toUpperCase() === upper) {
+        const macros = candidates.filter(def => def.kind === 'macro');
+        if (macros.length > 0) {
+          return macros;
+        }
+      }
+    }
+    return [];
+  }
+
+  getReferences(name: string): SymbolReference[] {
+    const matches: SymbolReference[] = [];
+    const isMacro = this.getDefinitions(name).some(def => def.kind === 'macro');
+    for (const refs of this.fileReferences.values()) {
+      for (const ref of refs) {
+        if (ref.name === name || (isMacro && ref.name.toUpperCase() === name.toUpperCase())) {
+          matches.push(ref);
+        }
+      }
+    }
+    return matches;
+  }
+
+  getFileDefinitions(filePath: string): SymbolDefinition[] {
+    return this.fileDefinitions.get(filePath) || [];
+  }
+
+  getAllDefinitions(): SymbolDefinition[] {
+    return Array.from(this.fileDefinitions.values()).flat();
+  }
+
+  // Resolve the fully qualified symbol at a position in an indexed file
+  resolveAt(filePath: string, lineNumber: number, column: number): string | undefined {
+    for (const ref of this.fileReferences.get(filePath) || []) {
+      if (ref.lineNumber === lineNumber && column >= ref.column && column <= ref.column + ref.length) {
+        return ref.name;
+      }
+    }
+    for (const def of this.fileDefinitions.get(filePath) || []) {
+      const length = def.kind === 'local' && def.parent ? def.name.length - def.parent.length : def.name.length;
+      if (def.lineNumber === lineNumber && column >= def.column && column <= def.column + length) {
+        return def.name;
+      }
+    }
+    return undefined;
+  }
+
+  // A section runs to the next section, a label to the next label of the same or an outer level
+  private computeSpans(defs: SymbolDefinition[], lineCount: number, lineBytes: number[], lineCycles: number[]): void {
+    const levels: { [kind: string]: number } = { section: 0, label: 1, local: 2 };
+    const spanning = defs.filter(def => levels[def.kind] !== undefined);
+
+    spanning.forEach((def, index) => {
+      let endLine = lineCount - 1;
+      for (let j = index + 1; j < spanning.length; j++) {
+        if (levels[spanning[j].kind] <= levels[def.kind]) {
+          endLine = spanning[j].lineNumber - 1;
+          break;
+        }
+      }
+
+      let bytes = 0;
+      let cycles = 0;
+      for (let line = def.lineNumber; line <= endLine; line++) {
+        bytes += lineBytes[line];
+        cycles += lineCycles[line];
+      }
+      def.endLine = endLine;
+      def.bytes = bytes;
+      def.cycles = cycles;
+    });
+  }
+
+  private createDefinition(name: string, kind: SymbolKind, filePath: string, lineNumber: number, column: number): SymbolDefinition {
+    return { name, kind, filePath, lineNumber, column };
+  }
+
+  private qualify(name: string, scope: string): string {
+    return name.startsWith('.') && scope ? scope + name : name;
+  }
+
+  private findWord(code: string, word: string, from: number): number {
+    const index = code.indexOf(word, from);
+    return index >= 0 ? index : from;
+  }
+
+  private collectReferences(code: string, offset: number, lineNumber: number, filePath: string, scope: string, refs: SymbolReference[], definitionColumn: number): void {
+    const trimmedRest = code.slice(offset).trim();
+    const mnemonic = trimmedRest.split(/\s+/)[0]?.toUpperCase() || '';
+
+    // SECTION/INCLUDE arguments are not symbol references
+    if (['SECTION', 'INCLUDE', 'INCBIN', 'PUSHS', 'LOAD'].includes(mnemonic)) {
+      return;
+    }
+
+    let first = true;
+    let i = offset;
+    while (i < code.length) {
+      const rest = code.slice(i);
+      let match: RegExpMatchArray | null;
+
+      if (rest[0] === '"') {
+        // Skip string literals
+        const end = code.indexOf('"', i + 1);
+        i = end < 0 ? code.length : end + 1;
+        continue;
+      }
+      if ((match = rest.match(/^(\$[0-9A-Fa-f_]+|%[01_]+|&[0-7_]+|\d[\w.]*|\\[\w@#<>]+)/))) {
+        i += match[0].length;
+        first = false;
+        continue;
+      }
+      if ((match = rest.match(/^[A-Za-z_.][\w.#@]*/))) {
+        const word = match[0];
+        const upper = word.toUpperCase();
+        const isCall = /^\s*\(/.test(code.slice(i + word.length));
+        const followedByBackslash = code[i + word.length] === '\\';
+
+        let isReference: boolean;
+        if (first) {
+          // The first word is a mnemonic, directive or macro invocation
+          isReference = !this.opcodes.isMnemonic(upper) && !this.parser.isDirective(upper) &&
+                        !SymbolIndex.KEYWORDS.includes(upper);
+        } else {
+          isReference = !SymbolIndex.REGISTERS.includes(upper) &&
+                        !SymbolIndex.KEYWORDS.includes(upper) &&
+                        !(isCall && SymbolIndex.FUNCTIONS.includes(upper));
+        }
+        // Local labels can only be resolved with a known scope; "\@" suffixes are macro-generated
+        if (word.startsWith('.') && (!scope || word === '.')) {
+          isReference = false;
+        }
+        if (followedByBackslash || i === definitionColumn) {
+          isReference = false;
+        }
+
+        if (isReference) {
+          refs.push({
+            name: this.qualify(word, scope),
+            filePath,
+            lineNumber,
+            column: i,
+            length: word.length
+          });
+        }
+
+        i += word.length;
+        first = false;
+        continue;
+      }
+
+      if (!/\s/.test(rest[0])) {
+        first = false;
+      }
+      i++;
+    }
+  }
+}
@@ -10,9 +10,21 @@ export interface ParsedLine {
   macroName?: string;
   isPredefCall?: boolean;
   predefType?: 'predef' | 'predef_jump';
+  farCall?: FarCall;      // Set for calls to a configured far-call macro, which has its own costs
+  constantName?: string;  // Set for DEF/EQU/SET/=/RB/RW lines
   raw: string;
 }
 
+// A macro that calls or jumps into another bank, costed as a whole instead of expanded
+export interface FarCall {
+  bytes: number;
+  cycles: number;
+  jump?: boolean;  // Jumps instead of calling, like predef_jump
+}
+
+// Far-call macros by name
+export type FarCallTable = { [name: string]: FarCall };
+
 export interface MacroDefinition {
   name: string;
   startLine: number;
@@ -39,11 +51,16 @@ export interface FlagEffect {
 }
 
 export interface LineMetrics {
+  lineNumber: number;
   bytes: number;
   cycles: number;
+  minCycles: number;  // Branch not taken
+  maxCycles: number;  // Branch taken
   cumulativeBytes: number;
   cumulativeCycles: number;
+  counting: boolean;  // Inside a measurement range, or anywhere when there are none
   opcode?: OpcodeInfo;
+  encoding?: string;  // Machine code such as "3E 90", with "??" for bytes that aren't known
 }
 
 export interface ExpandedInfo {
@@ -64,3 +81,114 @@ export interface RoutineDefinition {
   arguments: RoutineArgument[];
   description?: string;  // Optional general description of the routine
 }
+
+export type ConstantKind = 'EQU' | 'SET' | 'EQUS' | 'RB' | 'RW' | 'RL';
+
+export interface ConstantDefinition {
+  name: string;
+  kind: ConstantKind;
+  expression: string;     // Raw right-hand side, kept for lazy evaluation
+  value?: number;         // Numeric value, once it could be evaluated
+  stringValue?: string;   // Only for EQUS
+  filePath: string;
+  lineNumber: number;
+}
+
+export type SymbolKind = 'label' | 'local' | 'macro' | 'constant' | 'section';
+
+export interface SymbolDefinition {
+  name: string;          // Fully qualified, e.g. "Routine.loop" for local labels
+  kind: SymbolKind;
+  filePath: string;
+  lineNumber: number;
+  column: number;
+  parent?: string;       // Enclosing global label for local labels
+  section?: string;      // Enclosing SECTION name
+  exported?: boolean;    // "Label::"
+  endLine?: number;      // Last line belonging to the symbol (labels, sections, macros)
+  bytes?: number;        // Total size of the lines it spans
+  cycles?: number;       // Linear cycle total of the lines it spans
+}
+
+export interface SymbolReference {
+  name: string;          // Fully qualified target name
+  filePath: string;
+  lineNumber: number;
+  column: number;
+  length: number;
+}
+
+export type SectionType = 'ROM0' | 'ROMX' | 'VRAM' | 'SRAM' | 'WRAM0' | 'WRAMX' | 'OAM' | 'HRAM';
+
+export interface SectionHeader {
+  name: string;
+  type: SectionType;
+  modifier?: 'UNION' | 'FRAGMENT';
+  address?: number;      // Fixed origin, e.g. ROM0[$0150]
+  bank?: number;         // BANK[n]; undefined for floating sections
+  alignBits?: number;    // ALIGN[bits, offset]
+  alignOffset?: number;
+}
+
+export interface SectionInfo extends SectionHeader {
+  filePath: string;
+  lineNumber: number;
+  endLine: number;
+  bytes: number;
+}
+
+// Absolute address of a line inside a section whose origin is known
+export interface LineAddress {
+  address: number;
+  bank?: number;
+  section: string;
+}
+
+// Result of checking a "; @align N[, offset]" annotation against the section placement
+export interface AlignmentCheck {
+  lineNumber: number;
+  bits: number;
+  offset: number;
+  status: 'ok' | 'misaligned' | 'unknown';
+  residue?: number;      // Address modulo 2^bits, when the section placement determines it
+}
+
+// Label placement read from an rgblink .sym file
+export interface LinkedSymbol {
+  name: string;
+  bank: number;
+  address: number;
+}
+
+// Section placement read from an rgblink .map file
+export interface LinkedSection {
+  name: string;
+  type: SectionType;
+  bank: number;
+  address: number;
+  bytes: number;
+}
+
+export type AsmDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+// Editor-independent diagnostic; providers map it onto their own types
+export interface AsmDiagnostic {
+  lineNumber: number;
+  column: number;
+  length: number;
+  severity: AsmDiagnosticSeverity;
+  code: string;
+  message: string;
+}
+
+// Suggested rewrite of an instruction sequence and what it saves
+export interface PeepholeHint {
+  rule: string;
+  lineNumber: number;
+  replacement: string;      // New text of lineNumber, keeping its label, indentation and comment
+  removedLines: number[];   // Lines folded into the replacement
+  title: string;            // "ld a, 0 → xor a"
+  bytesSaved: number;
+  cyclesSaved: number;
+  notes: string[];          // Behaviour differences, e.g. flags
+}
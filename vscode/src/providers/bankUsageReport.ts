@@ -0,0 +1,27 @@
+import * as vscode from 'vscode';
+import { Project } from '../core/project';
+
+export const BANK_USAGE_URI = vscode.Uri.parse('gbasm-metrics:Bank%20Usage.md');
+
+// Read-only markdown document with the per-bank usage report, shown through the markdown preview
+export class BankUsageReportProvider implements vscode.TextDocumentContentProvider {
+  static readonly scheme = 'gbasm-metrics';
+
+  constructor(private project: Project) {}
+
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this._onDidChange.event;
+
+  provideTextDocumentContent(): string {
+    const rootPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    return this.project.sectionUsageAnalyzer.formatReport(rootPath) + this.project.linkerFiles.formatComparison(this.project.sectionUsageAnalyzer.getMergedSections(), rootPath);
+  }
+
+  refresh(): void {
+    this._onDidChange.fire(BANK_USAGE_URI);
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+}
@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import { Project } from '../core/project';
+import { SECTION_LIMITS, UsageStatus } from '../analysis/sectionUsage';
+import { SectionInfo, SectionType } from '../parser/types';
+
+interface BankNode {
+  kind: 'bank';
+  type: SectionType;
+  bank?: number;           // Undefined for floating sections before linking
+  used: number;
+  limit: number;
+  status: UsageStatus;
+  sections: SectionNode[];
+}
+
+interface SectionNode {
+  kind: 'section';
+  name: string;
+  bytes: number;
+  address?: number;
+  computedBytes?: number;  // Size counted from the source, when the node comes from the map file
+  source?: SectionInfo;
+}
+
+type BankTreeElement = BankNode | SectionNode;
+
+// Explorer view of ROM/RAM banks and their sections: as placed by rgblink when a .map file
+// is loaded, otherwise as counted from the source
+export class BankUsageTreeProvider implements vscode.TreeDataProvider<BankTreeElement> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<BankTreeElement | undefined>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(private project: Project) {}
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  getChildren(element?: BankTreeElement): BankTreeElement[] {
+    if (!element) {
+      return this.project.linkerFiles.hasMap() ? this.getLinkedBanks() : this.getComputedBanks();
+    }
+    return element.kind === 'bank' ? element.sections : [];
+  }
+
+  getTreeItem(element: BankTreeElement): vscode.TreeItem {
+    if (element.kind === 'bank') {
+      const label = this.project.sectionUsageAnalyzer.isBanked(element.type)
+        ? `${element.type} ${element.bank !== undefined ? element.bank : 'floating'}`
+        : element.type;
+      const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Collapsed);
+      const floating = element.bank === undefined && this.project.sectionUsageAnalyzer.isBanked(element.type);
+      const percent = (element.used / element.limit * 100).toFixed(1);
+      item.description = floating ? `${element.used} bytes` : `${element.used}/${element.limit} (${percent}%)`;
+      item.tooltip = floating
+        ? `${element.sections.length} floating sections, ${element.used} bytes; the linker places them in any bank`
+        : `${element.sections.length} sections, ${element.used} of ${element.limit} bytes used, ${element.limit - element.used} free`;
+      item.iconPath = element.status === 'ok'
+        ? new vscode.ThemeIcon('database')
+        : new vscode.ThemeIcon('warning', new vscode.ThemeColor(element.status === 'over' ? 'errorForeground' : 'editorWarning.foreground'));
+      return item;
+    }
+
+    const item = new vscode.TreeItem(element.name, vscode.TreeItemCollapsibleState.None);
+    const address = element.address !== undefined ? `$${element.address.toString(16).toUpperCase().padStart(4, '0')} ` : '';
+    const mismatch = element.computedBytes !== undefined && element.computedBytes !== element.bytes;
+    item.description = `${address}${element.bytes} bytes${mismatch ? ` (source: ${element.computedBytes})` : ''}`;
+    item.iconPath = mismatch
+      ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('editorWarning.foreground'))
+      : new vscode.ThemeIcon('symbol-namespace');
+    if (mismatch) {
+      item.tooltip = `The linker placed ${element.bytes} bytes, but ${element.computedBytes} were counted from the source`;
+    }
+    if (element.source) {
+      const uri = vscode.Uri.file(element.source.filePath);
+      const line = element.source.lineNumber;
+      item.resourceUri = uri;
+      item.command = {
+        command: 'vscode.open',
+        title: 'Go to Section',
+        arguments: [uri, { selection: new vscode.Range(line, 0, line, 0) }]
+      };
+    }
+    return item;
+  }
+
+  private getComputedBanks(): BankNode[] {
+    return this.project.sectionUsageAnalyzer.getBankUsage().map(usage => ({
+      kind: 'bank',
+      type: usage.type,
+      bank: usage.bank,
+      used: usage.used,
+      limit: usage.limit,
+      status: usage.status,
+      sections: [...usage.sections]
+        .sort((a, b) => (a.address ?? Infinity) - (b.address ?? Infinity) || b.bytes - a.bytes)
+        .map(section => ({ kind: 'section', name: section.name, bytes: section.bytes, address: section.address, source: section }))
+    }));
+  }
+
+  private getLinkedBanks(): BankNode[] {
+    const sources = new Map(this.project.sectionUsageAnalyzer.getMergedSections().map(section => [section.name, section]));
+    const banks = new Map<string, BankNode>();
+
+    for (const section of this.project.linkerFiles.getSections()) {
+      const key = `${section.type}:${section.bank}`;
+      let node = banks.get(key);
+      if (!node) {
+        const bank = this.project.sectionUsageAnalyzer.isBanked(section.type) ? section.bank : undefined;
+        node = { kind: 'bank', type: section.type, bank, used: 0, limit: SECTION_LIMITS[section.type], status: 'ok', sections: [] };
+        banks.set(key, node);
+      }
+      const source = sources.get(section.name);
+      node.used += section.bytes;
+      node.sections.push({
+        kind: 'section',
+        name: section.name,
+        bytes: section.bytes,
+        address: section.address,
+        computedBytes: source?.bytes,
+        source
+      });
+    }
+
+    for (const node of banks.values()) {
+      node.status = this.project.sectionUsageAnalyzer.getStatus(node.used, node.limit);
+      node.sections.sort((a, b) => (a.address ?? 0) - (b.address ?? 0));
+    }
+
+    const typeOrder = Object.keys(SECTION_LIMITS);
+    return Array.from(banks.values()).sort((a, b) =>
+      typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type) || (a.bank ?? -1) - (b.bank ?? -1));
+  }
+
+  dispose(): void {
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+import { Project } from '../core/project';
+import { MetricsDecorationProvider } from './metricsDecorationProvider';
+import { getCycleDisplayMode } from '../services/settings';
+
+// Budget usage above each "; @budget" routine, refreshed with the decorations
+export class BudgetCodeLensProvider implements vscode.CodeLensProvider {
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+  private subscription: vscode.Disposable;
+
+  constructor(private project: Project, private decorationProvider: MetricsDecorationProvider) {
+    this.subscription = decorationProvider.onDidUpdate(() => this._onDidChangeCodeLenses.fire());
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const mode = getCycleDisplayMode();
+    return this.decorationProvider.getBudgets(document.uri).map(budget => {
+      const range = new vscode.Range(budget.labelLine, 0, budget.labelLine, 0);
+      let title = this.project.budgetAnalyzer.formatBudget(budget, mode);
+      if (budget.status !== 'unknown') {
+        title += ', worst case';
+      }
+      if (budget.status === 'over') {
+        title = `$(warning) over budget: ${title}`;
+      } else if (budget.status === 'near') {
+        title = `near budget: ${title}`;
+      }
+      if (!budget.exact) {
+        title += ` (not counted: ${budget.unknownCalls.join(', ')})`;
+      }
+      return new vscode.CodeLens(range, { title, command: '' });
+    });
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this._onDidChangeCodeLenses.dispose();
+  }
+}
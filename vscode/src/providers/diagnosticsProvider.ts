@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { FileAnalysis, Project } from '../core/project';
+import { AsmDiagnostic, AsmDiagnosticSeverity, PeepholeHint } from '../parser/types';
+
+const SEVERITIES: { [severity in AsmDiagnosticSeverity]: vscode.DiagnosticSeverity } = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information
+};
+
+// Problems panel entries for lines rgbasm would reject, and peephole optimization hints
+export class AsmDiagnosticsProvider {
+  private collection = vscode.languages.createDiagnosticCollection('gbAsmMetrics');
+  private hints: Map<string, PeepholeHint[]> = new Map();
+
+  constructor(private project: Project) {}
+
+  // The analysis comes from the decoration pass for the document's current version: it already parsed
+  // and costed the document, indexed its symbols, ran the control-flow and flag analyses and handed
+  // the graphs to the register and stack analyzers
+  update(document: vscode.TextDocument, analysis: FileAnalysis): void {
+    const config = vscode.workspace.getConfiguration('gbAsmMetrics');
+    const showDiagnostics = config.get<boolean>('diagnostics', true);
+    const showHints = config.get<boolean>('peepholeHints', true);
+    if (!showDiagnostics && !showHints) {
+      this.collection.delete(document.uri);
+      this.hints.delete(document.uri.toString());
+      return;
+    }
+
+    const { parsedLines, costs, routines, budgets } = analysis;
+    const results: AsmDiagnostic[] = showDiagnostics
+      ? [
+          ...this.project.diagnosticsAnalyzer.analyze(document.uri.fsPath, parsedLines, costs),
+          ...routines.flatMap(routine => routine.flags.warnings),
+          ...this.project.registerAnalyzer.checkFile(document.uri.fsPath),
+          ...this.project.stackAnalyzer.checkFile(document.uri.fsPath),
+          ...this.project.budgetAnalyzer.createDiagnostics(budgets, parsedLines, this.project.getOptions().budgets)
+        ]
+      : [];
+    const diagnostics = results.map(result => {
+      const range = new vscode.Range(result.lineNumber, result.column, result.lineNumber, result.column + result.length);
+      const diagnostic = new vscode.Diagnostic(range, result.message, SEVERITIES[result.severity]);
+      diagnostic.code = result.code;
+      diagnostic.source = 'gb-asm';
+      return diagnostic;
+    });
+
+    const hints = showHints ? this.project.peepholeOptimizer.analyze(parsedLines, costs) : [];
+    this.hints.set(document.uri.toString(), hints);
+    for (const hint of hints) {
+      const text = document.lineAt(hint.lineNumber).text;
+      const start = text.match(/^\s*(?:[\w.]+:+\s*)?/)![0].length;
+      const end = start + this.project.parser.removeComments(text).slice(start).trimEnd().length;
+      const message = [`${hint.title}: ${this.formatSavings(hint)}`, ...hint.notes].join('\n');
+      const diagnostic = new vscode.Diagnostic(new vscode.Range(hint.lineNumber, start, hint.lineNumber, end), message, vscode.DiagnosticSeverity.Information);
+      diagnostic.code = 'peephole';
+      diagnostic.source = 'gb-asm';
+      diagnostics.push(diagnostic);
+    }
+    this.collection.set(document.uri, diagnostics);
+  }
+
+  getHint(uri: vscode.Uri, line: number): PeepholeHint | undefined {
+    return this.hints.get(uri.toString())?.find(hint => hint.lineNumber === line);
+  }
+
+  remove(uri: vscode.Uri): void {
+    this.collection.delete(uri);
+    this.hints.delete(uri.toString());
+  }
+
+  private formatSavings(hint: PeepholeHint): string {
+    const parts: string[] = [];
+    if (hint.bytesSaved !== 0) {
+      parts.push(`${hint.bytesSaved > 0 ? 'saves' : 'costs'} ${Math.abs(hint.bytesSaved)} byte${Math.abs(hint.bytesSaved) === 1 ? '' : 's'}`);
+    }
+    if (hint.cyclesSaved !== 0) {
+      parts.push(`${hint.cyclesSaved > 0 ? 'saves' : 'costs'} ${Math.abs(hint.cyclesSaved)} cycles`);
+    }
+    return parts.join(', ');
+  }
+
+  dispose(): void {
+    this.collection.dispose();
+  }
+}
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileAnalysis, Project } from '../core/project';
+import { MeasurementRange, MeasurementRangeManager } from '../services/measurementRangeManager';
+import { getCycleDisplayMode } from '../services/settings';
+import { MetricsDecorationProvider } from './metricsDecorationProvider';
+
+type RangeTreeElement =
+  | { kind: 'file'; uri: string }
+  | { kind: 'range'; range: MeasurementRange };
+
+// Explorer view listing measurement ranges per file with their byte and cycle totals
+export class MeasurementRangesTreeProvider implements vscode.TreeDataProvider<RangeTreeElement> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<RangeTreeElement | undefined>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  // Files without an up-to-date decoration pass, analyzed once per refresh
+  private analyses: Map<string, { version: number; analysis: FileAnalysis }> = new Map();
+
+  constructor(private project: Project, private rangeManager: MeasurementRangeManager, private decorationProvider: MetricsDecorationProvider) {}
+
+  refresh(): void {
+    this.analyses.clear();
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  getChildren(element?: RangeTreeElement): RangeTreeElement[] {
+    if (!element) {
+      const files = Array.from(new Set(this.rangeManager.getAllRanges().map(range => range.uri))).sort();
+      return files.map(uri => ({ kind: 'file', uri }));
+    }
+    if (element.kind === 'file') {
+      return this.rangeManager.getRanges(vscode.Uri.parse(element.uri)).map(range => ({ kind: 'range', range }));
+    }
+    return [];
+  }
+
+  async getTreeItem(element: RangeTreeElement): Promise<vscode.TreeItem> {
+    if (element.kind === 'file') {
+      const uri = vscode.Uri.parse(element.uri);
+      const item = new vscode.TreeItem(path.basename(uri.fsPath), vscode.TreeItemCollapsibleState.Expanded);
+      item.resourceUri = uri;
+      item.description = vscode.workspace.asRelativePath(uri, false);
+      return item;
+    }
+
+    const { range } = element;
+    const uri = vscode.Uri.parse(range.uri);
+    const item = new vscode.TreeItem(range.name, vscode.TreeItemCollapsibleState.None);
+    const lines = range.endLine !== undefined ? `${range.startLine + 1}-${range.endLine + 1}` : `${range.startLine + 1}-end`;
+    item.contextValue = 'measurementRange';
+    item.iconPath = new vscode.ThemeIcon('symbol-ruler');
+    item.command = {
+      command: 'gbAsmMetrics.revealMeasurementRange',
+      title: 'Reveal Measurement Range',
+      arguments: [range]
+    };
+
+    try {
+      const totals = await this.measure(uri, range);
+      const mode = getCycleDisplayMode();
+      const cycles = this.project.cycleDisplay.formatRange(totals.minCycles, totals.maxCycles, mode, totals.doubleSpeed);
+      item.description = `${totals.bytes}B | ${cycles}`;
+      item.tooltip = `${range.name} (lines ${lines}): ${totals.bytes} bytes, ${this.project.cycleDisplay.describe(totals.minCycles, mode, totals.doubleSpeed)} best case, ${this.project.cycleDisplay.describe(totals.maxCycles, mode, totals.doubleSpeed)} worst case`;
+    } catch (e) {
+      // File was moved or deleted
+      item.description = 'file not found';
+      item.tooltip = `${range.name} (lines ${lines})`;
+    }
+
+    return item;
+  }
+
+  // The range's totals as the editor's cumulative count shows them, using the open document's
+  // unsaved contents if any
+  private async measure(uri: vscode.Uri, range: MeasurementRange): Promise<{ bytes: number; minCycles: number; maxCycles: number; doubleSpeed: boolean }> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const matches = (analysis: FileAnalysis) => analysis.rangeTotals.find(totals => totals.startLine === range.startLine && totals.endLine === range.endLine);
+
+    let analysis = this.decorationProvider.getAnalysis(document);
+    if (!analysis || !matches(analysis)) {
+      const cached = this.analyses.get(uri.toString());
+      analysis = cached?.version === document.version ? cached.analysis : undefined;
+    }
+    if (!analysis || !matches(analysis)) {
+      const lines = [];
+      for (let i = 0; i < document.lineCount; i++) {
+        lines.push(document.lineAt(i).text);
+      }
+      analysis = this.project.analyze(uri.fsPath, lines, this.rangeManager.getRanges(uri));
+      this.analyses.set(uri.toString(), { version: document.version, analysis });
+    }
+
+    // Wall-clock time follows the speed at the start of the range
+    const { bytes, minCycles, maxCycles } = matches(analysis) ?? { bytes: 0, minCycles: 0, maxCycles: 0 };
+    return { bytes, minCycles, maxCycles, doubleSpeed: analysis.doubleSpeedLines.has(range.startLine) };
+  }
+
+  dispose(): void {
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -1,26 +1,36 @@
 import * as vscode from 'vscode';
-import { parser, macroRegistry } from '../parser/rgbdsParser';
-import { opcodeDatabase } from '../opcodes/opcodeData';
-import { StartPointManager } from '../services/startPointManager';
-import { LineMetrics, OpcodeInfo, MacroDefinition } from '../parser/types';
+import { FileAnalysis, Project } from '../core/project';
+import { RoutineAnalysis } from '../analysis/controlFlow';
+import { LoopInfo } from '../analysis/loopAnalysis';
+import { RoutineBudget } from '../analysis/budgetAnalysis';
+import { MeasurementRangeManager } from '../services/measurementRangeManager';
+import { markDocumentIndexed } from './symbolProviders';
+import { getMetricsOptions, getBudgetProfiles, getCycleDisplayMode } from '../services/settings';
+import { LineMetrics } from '../parser/types';
 
 export class MetricsDecorationProvider {
   private metricsDecorationType: vscode.TextEditorDecorationType;
-  private startPointDecorationType: vscode.TextEditorDecorationType;
+  private rangeMarkerDecorationType: vscode.TextEditorDecorationType;
   private expandedDecorationType: vscode.TextEditorDecorationType;
+  private inactiveDecorationType: vscode.TextEditorDecorationType;
   private expandedLines: Map<string, Set<number>> = new Map();
   private debounceTimer: NodeJS.Timeout | undefined;
   private lineMetricsCache: Map<string, Map<number, LineMetrics>> = new Map();
+  private analysisCache: Map<string, { version: number; analysis: FileAnalysis }> = new Map();
+  private budgetCache: Map<string, RoutineBudget[]> = new Map();
+  private doubleSpeedCache: Map<string, Set<number>> = new Map();
+  private _onDidUpdate = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidUpdate = this._onDidUpdate.event;
 
-  constructor(private startPointManager: StartPointManager) {
+  constructor(private project: Project, private rangeManager: MeasurementRangeManager) {
     // Inline metrics decoration (right side)
     // Note: margin is set dynamically per-decoration for alignment
     this.metricsDecorationType = vscode.window.createTextEditorDecorationType({
       rangeBehavior: vscode.DecorationRangeBehavior.ClosedOpen
     });
 
-    // Start point line decoration
-    this.startPointDecorationType = vscode.window.createTextEditorDecorationType({
+    // Measurement range start/end line decoration
+    this.rangeMarkerDecorationType = vscode.window.createTextEditorDecorationType({
       backgroundColor: new vscode.ThemeColor('editor.findMatchHighlightBackground'),
       isWholeLine: true,
       gutterIconPath: vscode.Uri.file(''),
@@ -35,6 +45,12 @@ export class MetricsDecorationProvider {
         fontStyle: 'italic',
       }
     });
+
+    // Dimmed lines in IF/ELIF/ELSE branches that aren't assembled
+    this.inactiveDecorationType = vscode.window.createTextEditorDecorationType({
+      opacity: '0.45',
+      isWholeLine: true
+    });
   }
 
   updateDecorations(editor: vscode.TextEditor): void {
@@ -44,167 +60,91 @@ export class MetricsDecorationProvider {
     }
 
     this.debounceTimer = setTimeout(() => {
-      this.doUpdateDecorations(editor);
+      this.doUpdateDecorations(editor).catch(error => {
+        console.error('GB Assembly Metrics: updating the decorations failed', error);
+      });
     }, 100);
   }
 
-  private doUpdateDecorations(editor: vscode.TextEditor): void {
+  private async doUpdateDecorations(editor: vscode.TextEditor): Promise<void> {
     const document = editor.document;
     const config = vscode.workspace.getConfiguration('gbAsmMetrics');
 
     if (!config.get<boolean>('enabled', true)) {
       editor.setDecorations(this.metricsDecorationType, []);
-      editor.setDecorations(this.startPointDecorationType, []);
+      editor.setDecorations(this.rangeMarkerDecorationType, []);
       editor.setDecorations(this.expandedDecorationType, []);
+      editor.setDecorations(this.inactiveDecorationType, []);
       return;
     }
 
-    // Parse the entire document to extract macro definitions first
-    // Pass the document's directory so INCLUDE paths can be resolved
     const allLines: string[] = [];
     for (let i = 0; i < document.lineCount; i++) {
       allLines.push(document.lineAt(i).text);
     }
-    const path = require('path');
-    const baseDir = path.dirname(document.uri.fsPath);
-    parser.parseDocument(allLines, baseDir);
+
+    // Unsaved edits are what files including this one see; includes are read ahead so parsing doesn't block
+    const version = document.version;
+    this.project.sources.setDocument(document.uri.fsPath, allLines, version);
+    await this.project.sources.loadIncludes(document.uri.fsPath, allLines);
+    if (document.version !== version || document.isClosed) {
+      return;
+    }
 
     const showBytes = config.get<boolean>('showByteCount', true);
     const showCycles = config.get<boolean>('showCycleCount', true);
     const showCumulative = config.get<boolean>('showCumulative', true);
-    const assumeBranchTaken = config.get<boolean>('assumeBranchTaken', true);
-    const predefBytes = config.get<number>('predefBytes', 8);
-    const predefCycles = config.get<number>('predefCycles', 44);
-    const predefJumpBytes = config.get<number>('predefJumpBytes', 8);
-    const predefJumpCycles = config.get<number>('predefJumpCycles', 36);
+    const showAddresses = config.get<boolean>('showAddresses', false);
+    const cycleMode = getCycleDisplayMode();
+    const metricsOptions = getMetricsOptions();
 
-    const startPointDecorations: vscode.DecorationOptions[] = [];
+    const rangeMarkerDecorations: vscode.DecorationOptions[] = [];
     const expandedDecorations: vscode.DecorationOptions[] = [];
+    const inactiveRanges: vscode.Range[] = [];
 
-    const startPoint = this.startPointManager.getStartPoint(document.uri);
+    const ranges = this.rangeManager.getRanges(document.uri);
     const expandedSet = this.expandedLines.get(document.uri.toString()) || new Set();
 
-    let cumulativeBytes = 0;
-    let cumulativeCycles = 0;
-    let counting = startPoint === undefined;
-    let inMacroDefinition = false;
-
-    // Cache for this document
-    const docCache = new Map<number, LineMetrics>();
-    this.lineMetricsCache.set(document.uri.toString(), docCache);
-
-    // First pass: collect line data and find max line length for alignment
-    interface LineData {
-      lineNumber: number;
-      lineLength: number;
-      bytes: number;
-      cycles: number;
-      cumulativeBytes: number;
-      cumulativeCycles: number;
-      opcode: OpcodeInfo | null;
-      macroDef: MacroDefinition | undefined;
-      isPredef: boolean;
-      predefType: 'predef' | 'predef_jump' | undefined;
-      counting: boolean;
-      parsed: ReturnType<typeof parser.parseLine>;
+    // Costs, addresses, routines, budgets and cumulative totals per measurement range
+    this.project.setOptions({ metrics: metricsOptions, budgets: getBudgetProfiles() });
+    const analysis = this.project.analyze(document.uri.fsPath, allLines, ranges);
+    const { costs, layout, budgets, doubleSpeedLines } = analysis;
+    this.lineMetricsCache.set(document.uri.toString(), new Map(analysis.lines.map(metrics => [metrics.lineNumber, metrics])));
+    this.analysisCache.set(document.uri.toString(), { version, analysis });
+    markDocumentIndexed(document);
+    this.budgetCache.set(document.uri.toString(), budgets);
+    this.doubleSpeedCache.set(document.uri.toString(), doubleSpeedLines);
+
+    // Lines in branches that aren't assembled are dimmed
+    for (const i of costs.inactiveLines) {
+      inactiveRanges.push(document.lineAt(i).range);
     }
-    const linesWithMetrics: LineData[] = [];
-    let maxLineLength = 0;
-
-    for (let i = 0; i < document.lineCount; i++) {
-      const line = document.lineAt(i);
-      const parsed = parser.parseLine(line.text, i);
-
-      // Track if we're inside a macro definition (don't count those lines)
-      if (parsed.isDirective && parsed.instruction === 'MACRO') {
-        inMacroDefinition = true;
-      }
-      if (parsed.isDirective && parsed.instruction === 'ENDM') {
-        inMacroDefinition = false;
-        continue;
-      }
-      if (inMacroDefinition) {
-        continue; // Skip lines inside macro definitions
-      }
-
-      // Check if we've reached the start point
-      if (startPoint !== undefined && i === startPoint) {
-        counting = true;
-        startPointDecorations.push({
-          range: new vscode.Range(i, 0, i, line.text.length),
-        });
-      }
 
-      let bytes = 0;
-      let cycles = 0;
-      let opcode: OpcodeInfo | null = null;
-      let macroDef: MacroDefinition | undefined = undefined;
-      let isPredef = false;
-      let predefType: 'predef' | 'predef_jump' | undefined = undefined;
+    // Lines that show metrics, and the longest of them for alignment
+    const linesWithMetrics = analysis.lines.filter(metrics => metrics.bytes > 0 || metrics.cycles > 0 || costs.lines.get(metrics.lineNumber)?.repeat);
+    let maxLineLength = 0;
+    for (const metrics of linesWithMetrics) {
+      maxLineLength = Math.max(maxLineLength, document.lineAt(metrics.lineNumber).text.length);
+    }
 
-      if (parsed.isPredefCall) {
-        // Predef call - use configured bytes/cycles
-        isPredef = true;
-        predefType = parsed.predefType;
-        if (parsed.predefType === 'predef_jump') {
-          bytes = predefJumpBytes;
-          cycles = predefJumpCycles;
-        } else {
-          bytes = predefBytes;
-          cycles = predefCycles;
-        }
-      } else if (parsed.isMacroCall && parsed.macroName) {
-        // Macro call - get metrics from macro definition
-        macroDef = macroRegistry.get(parsed.macroName);
-        if (macroDef) {
-          bytes = macroDef.bytes;
-          cycles = assumeBranchTaken ? macroDef.cycles[0] : (macroDef.cycles[macroDef.cycles.length - 1]);
+    // Highlight the start and end marker of each measurement range
+    for (const range of ranges) {
+      const markers: [number | undefined, string][] = [[range.startLine, 'starts'], [range.endLine, 'ends']];
+      for (const [line, action] of markers) {
+        if (line !== undefined && line < document.lineCount) {
+          rangeMarkerDecorations.push({
+            range: new vscode.Range(line, 0, line, document.lineAt(line).text.length),
+            hoverMessage: `Measurement range "${range.name}" ${action} here`
+          });
         }
-      } else if (parsed.instruction && !parsed.isDirective) {
-        opcode = opcodeDatabase.lookup(parsed.instruction, parsed.operands);
-        if (opcode) {
-          bytes = opcode.bytes;
-          cycles = assumeBranchTaken ? opcode.cycles[0] : (opcode.cycles[1] ?? opcode.cycles[0]);
-        }
-      } else if (parsed.isDirective && parsed.directiveBytes !== undefined) {
-        bytes = parsed.directiveBytes;
-      }
-
-      if (counting && (bytes > 0 || cycles > 0)) {
-        cumulativeBytes += bytes;
-        cumulativeCycles += cycles;
-      }
-
-      // Store metrics in cache
-      if (bytes > 0 || cycles > 0 || opcode || macroDef) {
-        docCache.set(i, {
-          bytes,
-          cycles,
-          cumulativeBytes: counting ? cumulativeBytes : 0,
-          cumulativeCycles: counting ? cumulativeCycles : 0,
-          opcode: opcode || undefined
-        });
       }
+    }
 
-      // Collect lines with metrics for second pass
-      if (bytes > 0 || cycles > 0) {
-        linesWithMetrics.push({
-          lineNumber: i,
-          lineLength: line.text.length,
-          bytes,
-          cycles,
-          cumulativeBytes,
-          cumulativeCycles,
-          opcode,
-          macroDef,
-          isPredef,
-          predefType,
-          counting,
-          parsed
-        });
-        if (line.text.length > maxLineLength) {
-          maxLineLength = line.text.length;
-        }
+    const loopsByHeader = new Map<number, LoopInfo>();
+    for (const loop of analysis.routines.flatMap(routine => routine.loops)) {
+      const existing = loopsByHeader.get(loop.headerLine);
+      if (!existing || loop.body.size > existing.body.size) {
+        loopsByHeader.set(loop.headerLine, loop);
       }
     }
 
@@ -214,32 +154,63 @@ export class MetricsDecorationProvider {
 
     for (const lineData of linesWithMetrics) {
       const line = document.lineAt(lineData.lineNumber);
+      const cost = costs.lines.get(lineData.lineNumber)!;
+      const parsed = analysis.parsedLines[lineData.lineNumber];
 
       // Build metrics string
       const parts: string[] = [];
+      const doubleSpeed = doubleSpeedLines.has(lineData.lineNumber);
+      const cycles = (value: number) => this.project.cycleDisplay.format(value, cycleMode, doubleSpeed);
+      const address = layout.addresses.get(lineData.lineNumber);
+      if (showAddresses && address) {
+        parts.push(this.project.sectionUsageAnalyzer.formatAddress(address));
+      }
 
-      if (showBytes) {
-        parts.push(`${lineData.bytes}B`);
+      const repeat = cost.repeat;
+      if (repeat) {
+        // ENDR: total of the whole REPT/FOR block
+        const repeatCycles = metricsOptions.assumeBranchTaken ? repeat.maxCycles : repeat.minCycles;
+        parts.push(`×${repeat.iterations ?? '?'} = ${repeat.bytes}B`);
+        if (showCycles) {
+          parts.push(cycles(repeatCycles));
+        }
         if (showCumulative && lineData.counting) {
           parts.push(`${lineData.cumulativeBytes}B`);
+          if (showCycles) {
+            parts.push(cycles(lineData.cumulativeCycles));
+          }
+        }
+      } else {
+        if (showBytes) {
+          parts.push(`${lineData.bytes}B`);
+          if (showCumulative && lineData.counting) {
+            parts.push(`${lineData.cumulativeBytes}B`);
+          }
         }
-      }
 
-      if (showCycles && lineData.cycles > 0) {
-        parts.push(`${lineData.cycles}c`);
-        if (showCumulative && lineData.counting) {
-          parts.push(`${lineData.cumulativeCycles}c`);
+        if (showCycles && lineData.cycles > 0) {
+          parts.push(cycles(lineData.cycles));
+          if (showCumulative && lineData.counting) {
+            parts.push(cycles(lineData.cumulativeCycles));
+          }
         }
       }
 
+      // Loop totals on the loop header
+      const loop = loopsByHeader.get(lineData.lineNumber);
+      if (loop && showCycles) {
+        const total = metricsOptions.assumeBranchTaken ? loop.totalMaxCycles : loop.totalMinCycles;
+        parts.push(loop.iterations !== undefined ? `loop ×${loop.iterations} = ${cycles(total)}` : `loop ×?`);
+      }
+
       // Add macro indicator
-      if (lineData.macroDef) {
+      if (cost.macroDef) {
         parts.push(`[macro]`);
       }
 
       // Add predef indicator
-      if (lineData.isPredef) {
-        parts.push(`[predef]`);
+      if (parsed.isPredefCall) {
+        parts.push(parsed.farCall ? `[far call]` : `[predef]`);
       }
 
       if (parts.length > 0) {
@@ -249,7 +220,7 @@ export class MetricsDecorationProvider {
           : new vscode.ThemeColor('disabledForeground');
 
         // Calculate padding to align all metrics using CSS 'ch' units (character width)
-        const paddingChars = maxLineLength - lineData.lineLength + minPadding;
+        const paddingChars = maxLineLength - line.text.length + minPadding;
 
         metricsDecorations.push({
           range: new vscode.Range(lineData.lineNumber, line.text.length, lineData.lineNumber, line.text.length),
@@ -266,16 +237,16 @@ export class MetricsDecorationProvider {
 
       // Handle expanded details for opcodes
       if (expandedSet.has(lineData.lineNumber) && lineData.opcode) {
-        const isCB = opcodeDatabase.isCBPrefixedInstruction(lineData.parsed.instruction!);
-        const hexBytes = opcodeDatabase.getOpcodeHex(lineData.opcode, isCB);
+        const hexBytes = lineData.encoding ?? '';
         const flags = `Z:${lineData.opcode.flags.Z} N:${lineData.opcode.flags.N} H:${lineData.opcode.flags.H} C:${lineData.opcode.flags.C}`;
 
-        let cycleInfo = `${lineData.opcode.cycles[0]}c`;
+        let cycleInfo = cycles(lineData.opcode.cycles[0]);
         if (lineData.opcode.cycles.length > 1) {
-          cycleInfo = `${lineData.opcode.cycles[0]}c taken / ${lineData.opcode.cycles[1]}c not taken`;
+          cycleInfo = `${cycles(lineData.opcode.cycles[0])} taken / ${cycles(lineData.opcode.cycles[1])} not taken`;
         }
 
-        const expandedText = `[${hexBytes}] ${flags} | ${cycleInfo}`;
+        const location = address ? `${this.project.sectionUsageAnalyzer.formatAddress(address)}: ` : '';
+        const expandedText = `${location}[${hexBytes}] ${flags} | ${cycleInfo}`;
 
         expandedDecorations.push({
           range: new vscode.Range(lineData.lineNumber, line.text.length, lineData.lineNumber, line.text.length),
@@ -289,14 +260,17 @@ export class MetricsDecorationProvider {
         });
       }
 
-      // Handle expanded details for macros
-      if (expandedSet.has(lineData.lineNumber) && lineData.macroDef) {
-        let cycleInfo = `${lineData.macroDef.cycles[0]}c`;
-        if (lineData.macroDef.cycles.length > 1) {
-          cycleInfo = `${lineData.macroDef.cycles[0]}c max / ${lineData.macroDef.cycles[1]}c min`;
+      // Handle expanded details for macros (as expanded for this call's arguments)
+      const macroDef = cost.macroDef;
+      if (expandedSet.has(lineData.lineNumber) && macroDef) {
+        const { minCycles, maxCycles, expansion } = cost;
+        let cycleInfo = cycles(maxCycles);
+        if (minCycles !== maxCycles) {
+          cycleInfo = `${cycles(maxCycles)} max / ${cycles(minCycles)} min`;
         }
 
-        const expandedText = `MACRO ${lineData.macroDef.name}: ${lineData.macroDef.bytes}B | ${cycleInfo} | ${lineData.macroDef.instructions.length} instructions`;
+        const instructionCount = (expansion || macroDef.instructions).filter(line => line.instruction && !line.isDirective).length;
+        const expandedText = `MACRO ${macroDef.name}: ${lineData.bytes}B | ${cycleInfo} | ${instructionCount} instructions`;
 
         expandedDecorations.push({
           range: new vscode.Range(lineData.lineNumber, line.text.length, lineData.lineNumber, line.text.length),
@@ -311,10 +285,12 @@ export class MetricsDecorationProvider {
       }
 
       // Handle expanded details for predef calls
-      if (expandedSet.has(lineData.lineNumber) && lineData.isPredef) {
-        const funcName = lineData.parsed.operands.length > 0 ? lineData.parsed.operands[0] : 'unknown';
-        const typeLabel = lineData.predefType === 'predef_jump' ? 'PREDEF_JUMP' : 'PREDEF';
-        const expandedText = `${typeLabel} ${funcName}: ${lineData.bytes}B | ${lineData.cycles}c (ld a,BANK + ld hl,addr + ${lineData.predefType === 'predef_jump' ? 'jp' : 'call'})`;
+      if (expandedSet.has(lineData.lineNumber) && parsed.isPredefCall) {
+        const funcName = parsed.operands.length > 0 ? parsed.operands[0] : 'unknown';
+        const typeLabel = parsed.farCall ? parsed.instruction : parsed.predefType === 'predef_jump' ? 'PREDEF_JUMP' : 'PREDEF';
+        // Configured far calls have their own costs, so there is no breakdown to show
+        const breakdown = parsed.farCall ? '' : ` (ld a,BANK + ld hl,addr + ${parsed.predefType === 'predef_jump' ? 'jp' : 'call'})`;
+        const expandedText = `${typeLabel} ${funcName}: ${lineData.bytes}B | ${cycles(lineData.cycles)}${breakdown}`;
 
         expandedDecorations.push({
           range: new vscode.Range(lineData.lineNumber, line.text.length, lineData.lineNumber, line.text.length),
@@ -329,9 +305,44 @@ export class MetricsDecorationProvider {
       }
     }
 
+    // "; @align N" results on the annotated label
+    for (const check of layout.alignments) {
+      const line = document.lineAt(check.lineNumber);
+      const text = check.status === 'ok' ? `aligned ${2 ** check.bits}` : check.status === 'misaligned' ? `⚠ misaligned (${2 ** check.bits})` : `align ${2 ** check.bits}?`;
+      metricsDecorations.push({
+        range: new vscode.Range(check.lineNumber, line.text.length, check.lineNumber, line.text.length),
+        hoverMessage: this.project.sectionUsageAnalyzer.describeAlignment(check),
+        renderOptions: {
+          after: {
+            contentText: text,
+            color: new vscode.ThemeColor(check.status === 'misaligned' ? 'editorWarning.foreground' : 'editorCodeLens.foreground'),
+            margin: `0 0 0 ${Math.max(maxLineLength - line.text.length, 0) + minPadding}ch`
+          }
+        }
+      });
+    }
+
+    // "; @budget NAME" results on the routine label, from the worst-case path including callees
+    for (const budget of budgets) {
+      const line = document.lineAt(budget.labelLine);
+      const warn = budget.status === 'over' || budget.budget === undefined;
+      metricsDecorations.push({
+        range: new vscode.Range(budget.labelLine, line.text.length, budget.labelLine, line.text.length),
+        renderOptions: {
+          after: {
+            contentText: `${warn ? '⚠ ' : ''}${this.project.budgetAnalyzer.formatBudget(budget, cycleMode)}`,
+            color: new vscode.ThemeColor(warn ? 'editorWarning.foreground' : 'editorCodeLens.foreground'),
+            margin: `0 0 0 ${Math.max(maxLineLength - line.text.length, 0) + minPadding}ch`
+          }
+        }
+      });
+    }
+
     editor.setDecorations(this.metricsDecorationType, metricsDecorations);
-    editor.setDecorations(this.startPointDecorationType, startPointDecorations);
+    editor.setDecorations(this.rangeMarkerDecorationType, rangeMarkerDecorations);
     editor.setDecorations(this.expandedDecorationType, expandedDecorations);
+    editor.setDecorations(this.inactiveDecorationType, inactiveRanges);
+    this._onDidUpdate.fire(document.uri);
   }
 
   toggleExpandLine(uri: vscode.Uri, line: number): void {
@@ -365,10 +376,42 @@ export class MetricsDecorationProvider {
     return this.lineMetricsCache.get(uri.toString())?.get(line);
   }
 
+  // Per-line metrics for the whole document, keyed by line number
+  getDocumentMetrics(uri: vscode.Uri): Map<number, LineMetrics> | undefined {
+    return this.lineMetricsCache.get(uri.toString());
+  }
+
+  // Everything the last decoration pass computed for the document, for providers that build on it
+  // undefined once the document was edited, until the next pass
+  getAnalysis(document: vscode.TextDocument): FileAnalysis | undefined {
+    const cached = this.analysisCache.get(document.uri.toString());
+    return cached?.version === document.version ? cached.analysis : undefined;
+  }
+
+  getRoutineAnalyses(uri: vscode.Uri): RoutineAnalysis[] {
+    return this.analysisCache.get(uri.toString())?.analysis.routines || [];
+  }
+
+  getBudgets(uri: vscode.Uri): RoutineBudget[] {
+    return this.budgetCache.get(uri.toString()) || [];
+  }
+
+  // Whether the line is in a "; @doublespeed" file or section
+  isDoubleSpeed(uri: vscode.Uri, line: number): boolean {
+    return this.doubleSpeedCache.get(uri.toString())?.has(line) ?? false;
+  }
+
+  // The routine whose label..end range contains the line
+  getRoutineAt(uri: vscode.Uri, line: number): RoutineAnalysis | undefined {
+    return this.getRoutineAnalyses(uri).find(routine => line >= routine.startLine && line <= routine.endLine);
+  }
+
   dispose(): void {
     this.metricsDecorationType.dispose();
-    this.startPointDecorationType.dispose();
+    this.rangeMarkerDecorationType.dispose();
     this.expandedDecorationType.dispose();
+    this.inactiveDecorationType.dispose();
+    this._onDidUpdate.dispose();
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
     }
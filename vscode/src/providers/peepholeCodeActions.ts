@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import { AsmDiagnosticsProvider } from './diagnosticsProvider';
+
+// Quick Fixes applying the peephole hints reported by the diagnostics provider
+export class PeepholeCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(private diagnosticsProvider: AsmDiagnosticsProvider) {}
+
+  provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== 'gb-asm' || diagnostic.code !== 'peephole') {
+        continue;
+      }
+      const hint = this.diagnosticsProvider.getHint(document.uri, diagnostic.range.start.line);
+      if (!hint) {
+        continue;
+      }
+
+      const action = new vscode.CodeAction(`Replace ${hint.title}`, vscode.CodeActionKind.QuickFix);
+      action.edit = new vscode.WorkspaceEdit();
+      action.edit.replace(document.uri, document.lineAt(hint.lineNumber).range, hint.replacement);
+      for (const line of hint.removedLines) {
+        action.edit.delete(document.uri, document.lineAt(line).rangeIncludingLineBreak);
+      }
+      action.diagnostics = [diagnostic];
+      action.isPreferred = true;
+      actions.push(action);
+    }
+
+    return actions;
+  }
+}
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { Project } from '../core/project';
+import { MetricsDecorationProvider } from './metricsDecorationProvider';
+import { getCycleDisplayMode } from '../services/settings';
+
+// Status bar readout of bytes and min/max cycles for the selection, or the enclosing routine
+export class SelectionMetricsStatusBar {
+  private item: vscode.StatusBarItem;
+
+  constructor(private project: Project, private decorationProvider: MetricsDecorationProvider) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+  }
+
+  update(editor: vscode.TextEditor | undefined): void {
+    const config = vscode.workspace.getConfiguration('gbAsmMetrics');
+    const metrics = editor ? this.decorationProvider.getDocumentMetrics(editor.document.uri) : undefined;
+
+    if (!editor || !metrics || !config.get<boolean>('enabled', true)) {
+      this.item.hide();
+      return;
+    }
+
+    const selections = editor.selections.filter(selection => !selection.isEmpty);
+    if (selections.length > 0) {
+      this.showSelection(editor, selections);
+    } else {
+      this.showRoutine(editor);
+    }
+  }
+
+  // Sum every line touched by any selection, counting shared lines once
+  private showSelection(editor: vscode.TextEditor, selections: readonly vscode.Selection[]): void {
+    const metrics = this.decorationProvider.getDocumentMetrics(editor.document.uri)!;
+    const lines = new Set<number>();
+
+    for (const selection of selections) {
+      // A selection ending at column 0 doesn't include that line
+      const endLine = selection.end.character === 0 && selection.end.line > selection.start.line
+        ? selection.end.line - 1
+        : selection.end.line;
+      for (let line = selection.start.line; line <= endLine; line++) {
+        lines.add(line);
+      }
+    }
+
+    let bytes = 0;
+    let minCycles = 0;
+    let maxCycles = 0;
+    for (const line of lines) {
+      const lineMetrics = metrics.get(line);
+      if (lineMetrics) {
+        bytes += lineMetrics.bytes;
+        minCycles += lineMetrics.minCycles;
+        maxCycles += lineMetrics.maxCycles;
+      }
+    }
+
+    // Wall-clock time follows the speed of the first selected line
+    const mode = getCycleDisplayMode();
+    const doubleSpeed = this.decorationProvider.isDoubleSpeed(editor.document.uri, Math.min(...lines));
+    const scope = selections.length > 1 ? `${selections.length} selections` : `${lines.size} line${lines.size === 1 ? '' : 's'}`;
+    this.item.text = `$(selection) ${bytes}B | ${this.project.cycleDisplay.formatRange(minCycles, maxCycles, mode, doubleSpeed)}`;
+    this.item.tooltip = `Selection (${scope}): ${bytes} bytes, ${this.project.cycleDisplay.describe(minCycles, mode, doubleSpeed)} best case, ${this.project.cycleDisplay.describe(maxCycles, mode, doubleSpeed)} worst case${doubleSpeed ? ' (double speed)' : ''}`;
+    this.item.show();
+  }
+
+  private showRoutine(editor: vscode.TextEditor): void {
+    const uri = editor.document.uri;
+    const routine = this.decorationProvider.getRoutineAt(uri, editor.selection.active.line);
+    if (!routine) {
+      this.item.hide();
+      return;
+    }
+
+    const metrics = this.decorationProvider.getDocumentMetrics(uri)!;
+    let bytes = 0;
+    for (let line = routine.startLine; line <= routine.endLine; line++) {
+      bytes += metrics.get(line)?.bytes ?? 0;
+    }
+
+    // Cycles follow the control-flow paths rather than a straight sum of the lines
+    const mode = getCycleDisplayMode();
+    const doubleSpeed = this.decorationProvider.isDoubleSpeed(uri, routine.startLine);
+    const cycles = routine.minCycles !== undefined && routine.maxCycles !== undefined
+      ? this.project.cycleDisplay.formatRange(routine.minCycles, routine.maxCycles, mode, doubleSpeed)
+      : '?';
+    const describe = (value: number | undefined) => value !== undefined ? this.project.cycleDisplay.describe(value, mode, doubleSpeed) : '?';
+    this.item.text = `$(symbol-method) ${routine.name}: ${bytes}B | ${cycles}`;
+    this.item.tooltip = `${routine.name}: ${bytes} bytes, ${describe(routine.minCycles)} best path, ${describe(routine.maxCycles)} worst path${doubleSpeed ? ' (double speed)' : ''}`;
+    this.item.show();
+  }
+
+  dispose(): void {
+    this.item.dispose();
+  }
+}
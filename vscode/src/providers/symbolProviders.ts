@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import { Project } from '../core/project';
+import { SymbolDefinition, SymbolReference } from '../parser/types';
+import { getMetricsOptions } from '../services/settings';
+
+// Document versions already in the index, so unsaved edits are picked up lazily
+const indexedVersions: Map<string, number> = new Map();
+
+export function indexDocument(project: Project, document: vscode.TextDocument): void {
+  const key = document.uri.fsPath;
+  if (indexedVersions.get(key) === document.version) {
+    return;
+  }
+
+  const lines: string[] = [];
+  for (let i = 0; i < document.lineCount; i++) {
+    lines.push(document.lineAt(i).text);
+  }
+  project.symbolIndex.indexFile(key, lines, getMetricsOptions());
+  indexedVersions.set(key, document.version);
+}
+
+// The document's current version was indexed elsewhere (by Project.analyze)
+export function markDocumentIndexed(document: vscode.TextDocument): void {
+  indexedVersions.set(document.uri.fsPath, document.version);
+}
+
+// Forget cached versions after a workspace rescan replaced the index contents
+export function resetIndexedVersions(): void {
+  indexedVersions.clear();
+}
+
+// Resolve the qualified symbol name under the cursor (".loop" becomes "Routine.loop")
+export function resolveSymbolAt(project: Project, document: vscode.TextDocument, position: vscode.Position): string | undefined {
+  indexDocument(project, document);
+
+  const resolved = project.symbolIndex.resolveAt(document.uri.fsPath, position.line, position.character);
+  if (resolved) {
+    return resolved;
+  }
+
+  const wordRange = document.getWordRangeAtPosition(position, /[A-Za-z_.][\w.#@]*/);
+  return wordRange ? document.getText(wordRange) : undefined;
+}
+
+function definitionLocation(def: SymbolDefinition): vscode.Location {
+  const start = new vscode.Position(def.lineNumber, def.column);
+  return new vscode.Location(vscode.Uri.file(def.filePath), new vscode.Range(start, start.translate(0, displayName(def).length)));
+}
+
+function referenceLocation(ref: SymbolReference): vscode.Location {
+  const start = new vscode.Position(ref.lineNumber, ref.column);
+  return new vscode.Location(vscode.Uri.file(ref.filePath), new vscode.Range(start, start.translate(0, ref.length)));
+}
+
+export class SymbolDefinitionProvider implements vscode.DefinitionProvider {
+  constructor(private project: Project) {}
+
+  provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Location[] | undefined {
+    const name = resolveSymbolAt(this.project, document, position);
+    if (!name) {
+      return undefined;
+    }
+
+    const defs = this.project.symbolIndex.getDefinitions(name);
+    return defs.length > 0 ? defs.map(definitionLocation) : undefined;
+  }
+}
+
+export class SymbolReferenceProvider implements vscode.ReferenceProvider {
+  constructor(private project: Project) {}
+
+  provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext
+  ): vscode.Location[] | undefined {
+    const name = resolveSymbolAt(this.project, document, position);
+    if (!name) {
+      return undefined;
+    }
+
+    const locations = this.project.symbolIndex.getReferences(name).map(referenceLocation);
+    if (context.includeDeclaration) {
+      locations.unshift(...this.project.symbolIndex.getDefinitions(name).map(definitionLocation));
+    }
+    return locations;
+  }
+}
+
+function formatSize(def: SymbolDefinition): string {
+  return def.bytes !== undefined ? `${def.bytes}B | ${def.cycles ?? 0}c` : '';
+}
+
+function displayName(def: SymbolDefinition): string {
+  return def.kind === 'local' && def.parent ? def.name.slice(def.parent.length) : def.name;
+}
+
+function symbolKind(def: SymbolDefinition): vscode.SymbolKind {
+  switch (def.kind) {
+    case 'section': return vscode.SymbolKind.Namespace;
+    case 'macro': return vscode.SymbolKind.Method;
+    case 'constant': return vscode.SymbolKind.Constant;
+    case 'local': return vscode.SymbolKind.Key;
+    default: return vscode.SymbolKind.Function;
+  }
+}
+
+// Outline: SECTION -> global labels -> local labels, plus macro definitions
+export class AsmDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  constructor(private project: Project) {}
+
+  provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    indexDocument(this.project, document);
+
+    const roots: vscode.DocumentSymbol[] = [];
+    let currentSection: vscode.DocumentSymbol | undefined;
+    let currentLabel: vscode.DocumentSymbol | undefined;
+
+    for (const def of this.project.symbolIndex.getFileDefinitions(document.uri.fsPath)) {
+      if (def.kind === 'constant') {
+        continue;
+      }
+
+      const endLine = Math.max(def.lineNumber, def.endLine ?? def.lineNumber);
+      const range = new vscode.Range(def.lineNumber, 0, endLine, document.lineAt(endLine).text.length);
+      const nameStart = new vscode.Position(def.lineNumber, def.column);
+      const selectionRange = new vscode.Range(nameStart, nameStart.translate(0, displayName(def).length));
+      const symbol = new vscode.DocumentSymbol(displayName(def), formatSize(def), symbolKind(def), range, selectionRange);
+
+      switch (def.kind) {
+        case 'section':
+          roots.push(symbol);
+          currentSection = symbol;
+          currentLabel = undefined;
+          break;
+        case 'label':
+          (currentSection ? currentSection.children : roots).push(symbol);
+          currentLabel = symbol;
+          break;
+        case 'local':
+          (currentLabel ? currentLabel.children : currentSection ? currentSection.children : roots).push(symbol);
+          break;
+        default:
+          roots.push(symbol);
+          break;
+      }
+    }
+
+    return roots;
+  }
+}
+
+// Ctrl+T across every indexed .asm/.inc file
+export class AsmWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+  constructor(private project: Project) {}
+
+  provideWorkspaceSymbols(query: string): vscode.SymbolInformation[] {
+    const needle = query.toLowerCase();
+    const results: vscode.SymbolInformation[] = [];
+
+    for (const def of this.project.symbolIndex.getAllDefinitions()) {
+      if (!this.matches(def.name.toLowerCase(), needle)) {
+        continue;
+      }
+
+      const container = [def.parent || def.section, formatSize(def)].filter(part => part).join(' | ');
+      const nameStart = new vscode.Position(def.lineNumber, def.column);
+      results.push(new vscode.SymbolInformation(
+        def.name,
+        symbolKind(def),
+        container,
+        new vscode.Location(vscode.Uri.file(def.filePath), nameStart)
+      ));
+    }
+
+    return results;
+  }
+
+  // Characters of the query must appear in order (VS Code applies its own ranking afterwards)
+  private matches(name: string, query: string): boolean {
+    let position = 0;
+    for (const char of query) {
+      position = name.indexOf(char, position);
+      if (position < 0) {
+        return false;
+      }
+      position++;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+
+export interface MeasurementRange {
+  id: string;
+  name: string;
+  uri: string;         // Document URI as a string
+  startLine: number;
+  endLine?: number;    // Open-ended ranges count to the end of the file
+}
+
+// Named start/end ranges per file, persisted in workspace state and kept in place as the file is edited
+export class MeasurementRangeManager {
+  private static readonly STATE_KEY = 'gbAsmMetrics.measurementRanges';
+
+  private ranges: MeasurementRange[];
+  private nextId = 0;
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri | undefined>();
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(private state: vscode.Memento) {
+    this.ranges = state.get<MeasurementRange[]>(MeasurementRangeManager.STATE_KEY, []);
+  }
+
+  // Ranges of one file, sorted by start line
+  getRanges(uri: vscode.Uri): MeasurementRange[] {
+    const key = uri.toString();
+    return this.ranges.filter(range => range.uri === key).sort((a, b) => a.startLine - b.startLine);
+  }
+
+  getAllRanges(): MeasurementRange[] {
+    return [...this.ranges];
+  }
+
+  addRange(uri: vscode.Uri, name: string, startLine: number, endLine?: number): MeasurementRange {
+    const range: MeasurementRange = {
+      id: `${Date.now().toString(36)}-${this.nextId++}`,
+      name,
+      uri: uri.toString(),
+      startLine,
+      endLine: endLine !== undefined && endLine >= startLine ? endLine : undefined
+    };
+    this.ranges.push(range);
+    this.save(uri);
+    return range;
+  }
+
+  removeRange(id: string): void {
+    const range = this.ranges.find(candidate => candidate.id === id);
+    if (range) {
+      this.ranges = this.ranges.filter(candidate => candidate.id !== id);
+      this.save(vscode.Uri.parse(range.uri));
+    }
+  }
+
+  renameRange(id: string, name: string): void {
+    const range = this.ranges.find(candidate => candidate.id === id);
+    if (range) {
+      range.name = name;
+      this.save(vscode.Uri.parse(range.uri));
+    }
+  }
+
+  // Start an open-ended range at the line, or remove the range that starts there
+  toggleStartPoint(uri: vscode.Uri, line: number): void {
+    const existing = this.getRanges(uri).find(range => range.startLine === line);
+    if (existing) {
+      this.removeRange(existing.id);
+    } else {
+      this.addRange(uri, `Line ${line + 1}`, line);
+    }
+  }
+
+  // End the closest range starting at or above the line there (again on the same line reopens it)
+  toggleEndPoint(uri: vscode.Uri, line: number): void {
+    const candidates = this.getRanges(uri).filter(range => range.startLine <= line);
+    const range = candidates[candidates.length - 1];
+    if (!range) {
+      return;
+    }
+    range.endLine = range.endLine === line ? undefined : line;
+    this.save(uri);
+  }
+
+  clearAll(): void {
+    this.ranges = [];
+    this.save(undefined);
+  }
+
+  // Shift ranges so they stay on the same code when lines are inserted or removed above them
+  handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+    const ranges = this.getRanges(event.document.uri);
+    if (ranges.length === 0) {
+      return;
+    }
+
+    let moved = false;
+    for (const change of event.contentChanges) {
+      for (const range of ranges) {
+        const startLine = this.shiftLine(range.startLine, change);
+        const endLine = range.endLine !== undefined ? this.shiftLine(range.endLine, change) : undefined;
+        if (startLine !== range.startLine || endLine !== range.endLine) {
+          range.startLine = startLine;
+          range.endLine = endLine;
+          moved = true;
+        }
+      }
+    }
+
+    if (moved) {
+      this.save(event.document.uri);
+    }
+  }
+
+  private shiftLine(line: number, change: vscode.TextDocumentContentChangeEvent): number {
+    const { start, end } = change.range;
+    const added = change.text.split('\n').length - 1;
+    const removed = end.line - start.line;
+
+    if (start.line > line) {
+      return line;
+    }
+    if (end.line < line) {
+      return line + added - removed;
+    }
+    // Whole lines inserted at the start of the marker line push it down
+    if (start.line === line && start.character === 0 && removed === 0 && change.text.endsWith('\n')) {
+      return line + added;
+    }
+    // The marker line was part of the edit: keep it where the edit started
+    return start.line;
+  }
+
+  private save(uri: vscode.Uri | undefined): void {
+    this.state.update(MeasurementRangeManager.STATE_KEY, this.ranges);
+    this._onDidChange.fire(uri);
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+}
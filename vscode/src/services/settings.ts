@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { MetricsOptions } from '../metrics/metricsEngine';
+import { BudgetProfiles, DEFAULT_BUDGET_PROFILES } from '../analysis/budgetAnalysis';
+import { CycleDisplayMode } from '../metrics/cycleDisplay';
+import { DEFAULT_EXCLUDES, WorkspaceFileOptions } from '../core/workspaceFiles';
+import { FarCallTable } from '../parser/types';
+
+// Read the costing options from the gbAsmMetrics configuration section
+export function getMetricsOptions(): MetricsOptions {
+  const config = vscode.workspace.getConfiguration('gbAsmMetrics');
+  return {
+    assumeBranchTaken: config.get<boolean>('assumeBranchTaken', true),
+    predefBytes: config.get<number>('predefBytes', 8),
+    predefCycles: config.get<number>('predefCycles', 44),
+    predefJumpBytes: config.get<number>('predefJumpBytes', 8),
+    predefJumpCycles: config.get<number>('predefJumpCycles', 36)
+  };
+}
+
+export function getCycleDisplayMode(): CycleDisplayMode {
+  const mode = vscode.workspace.getConfiguration('gbAsmMetrics').get<string>('cycleDisplay', 't-cycles');
+  return mode === 'm-cycles' || mode === 'microseconds' ? mode : 't-cycles';
+}
+
+// Built-in budget profiles with gbAsmMetrics.budgets on top, keyed by lower-case name
+export function getBudgetProfiles(): BudgetProfiles {
+  const profiles: BudgetProfiles = { ...DEFAULT_BUDGET_PROFILES };
+  const custom = vscode.workspace.getConfiguration('gbAsmMetrics').get<BudgetProfiles>('budgets', {});
+  for (const [name, cycles] of Object.entries(custom)) {
+    if (typeof cycles === 'number' && cycles > 0) {
+      profiles[name.toLowerCase()] = cycles;
+    }
+  }
+  return profiles;
+}
+
+// Paths of the rgblink output from gbAsmMetrics.symFile and gbAsmMetrics.mapFile; empty to search for them
+export function getLinkerFileSettings(): { symFile: string; mapFile: string } {
+  const config = vscode.workspace.getConfiguration('gbAsmMetrics');
+  return {
+    symFile: config.get<string>('symFile', ''),
+    mapFile: config.get<string>('mapFile', '')
+  };
+}
+
+export type BuildVariants = { [variant: string]: string[] };
+
+export function getBuildVariants(): BuildVariants {
+  return vscode.workspace.getConfiguration('gbAsmMetrics').get<BuildVariants>('buildVariants', {});
+}
+
+export function getActiveVariant(): string | undefined {
+  const variant = vscode.workspace.getConfiguration('gbAsmMetrics').get<string>('activeVariant', '');
+  return variant && getBuildVariants()[variant] ? variant : undefined;
+}
+
+// Symbols for conditional assembly in rgbasm -D form ("NAME" or "NAME=VALUE"),
+// from gbAsmMetrics.predefinedSymbols followed by the active build variant's
+export function getPredefinedSymbols(): Map<string, string> {
+  const config = vscode.workspace.getConfiguration('gbAsmMetrics');
+  const definitions = [...config.get<string[]>('predefinedSymbols', [])];
+  const variant = getActiveVariant();
+  if (variant) {
+    definitions.push(...getBuildVariants()[variant]);
+  }
+
+  const symbols = new Map<string, string>();
+  for (const definition of definitions) {
+    const separator = definition.indexOf('=');
+    const name = (separator >= 0 ? definition.slice(0, separator) : definition).trim();
+    if (name) {
+      symbols.set(name, separator >= 0 ? definition.slice(separator + 1).trim() : '1');
+    }
+  }
+  return symbols;
+}
+
+// The workspace root, where rgbasm runs from, followed by gbAsmMetrics.includePaths relative to it (rgbasm -I)
+export function getIncludePaths(): string[] {
+  const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!root) {
+    return [];
+  }
+  const configured = vscode.workspace.getConfiguration('gbAsmMetrics').get<string[]>('includePaths', []);
+  return [root, ...configured.map(dir => path.resolve(root, dir))];
+}
+
+// Which files the workspace scan skips
+export function getWorkspaceFileOptions(): WorkspaceFileOptions {
+  const config = vscode.workspace.getConfiguration('gbAsmMetrics');
+  return {
+    excludes: config.get<string[]>('exclude', DEFAULT_EXCLUDES),
+    useGitignore: config.get<boolean>('useGitignore', true)
+  };
+}
+
+// gbAsmMetrics.farCalls, without entries that lack a byte or cycle count
+export function getFarCalls(): FarCallTable {
+  const configured = vscode.workspace.getConfiguration('gbAsmMetrics').get<FarCallTable>('farCalls', {});
+  const table: FarCallTable = {};
+  for (const [name, farCall] of Object.entries(configured)) {
+    if (farCall && typeof farCall.bytes === 'number' && typeof farCall.cycles === 'number') {
+      table[name] = { bytes: farCall.bytes, cycles: farCall.cycles, jump: farCall.jump === true };
+    }
+  }
+  return table;
+}
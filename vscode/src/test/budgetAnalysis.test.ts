@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { Project } from '../core/project';
+import { analyzeSource } from './helpers';
+
+describe('BudgetAnalyzer', () => {
+  it('compares the worst-case path with callees against the budget', () => {
+    const [budget] = analyzeSource(new Project(), `
+      SECTION "Main", ROM0
+      ; @budget 100
+      VBlank:
+        call Helper
+        ret
+      Helper:
+        ld a, 1
+        ret
+    `).budgets;
+
+    // call 24 + ret 16, Helper 8 + 16
+    assert.deepStrictEqual([budget.routine, budget.budget, budget.worstCycles, budget.exact, budget.status], ['VBlank', 100, 64, true, 'ok']);
+  });
+
+  it('marks a total with an unknown callee as a lower bound', () => {
+    const [budget] = analyzeSource(new Project(), `
+      SECTION "Main", ROM0
+      ; @budget 100
+      VBlank:
+        call Missing
+        ret
+    `).budgets;
+
+    assert.strictEqual(budget.exact, false);
+    assert.deepStrictEqual(budget.unknownCalls, ['Missing']);
+  });
+
+  it('marks a total with a callee that never returns as a lower bound', () => {
+    const [budget] = analyzeSource(new Project(), `
+      SECTION "Main", ROM0
+      ; @budget 100
+      VBlank:
+        call Forever
+        ret
+      Forever:
+        halt
+        jr Forever
+    `).budgets;
+
+    assert.strictEqual(budget.worstCycles, 40);
+    assert.strictEqual(budget.exact, false);
+    assert.deepStrictEqual(budget.unknownCalls, ['Forever']);
+  });
+});
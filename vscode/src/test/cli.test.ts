@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { Project } from '../core/project';
+import { DEFAULT_BUDGET_PROFILES } from '../analysis/budgetAnalysis';
+import { DEFAULT_REPORT_OPTIONS, MetricsReport, MetricsReporter, ReportOptions } from '../cli/metricsReport';
+import { ReportFormatter } from '../cli/reportFormatter';
+
+describe('MetricsReporter', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gbasm-metrics-'));
+    fs.mkdirSync(path.join(dir, 'hardware'));
+    fs.writeFileSync(path.join(dir, 'hardware', 'hardware.inc'), 'DEF PADDING EQU 4\n');
+    fs.writeFileSync(path.join(dir, 'main.asm'), [
+      'INCLUDE "hardware.inc"',
+      'SECTION "Main", ROM0',
+      '; @budget hblank',
+      'VBlank:',
+      'IF DEF(FAST)',
+      '  ret',
+      'ELSE',
+      '  ld b, 4',
+      '.loop',
+      '  dec b',
+      '  jr nz, .loop',
+      '  ret',
+      'ENDC',
+      '; @budget tiny',
+      'Padded:',
+      '  ds PADDING',
+      '  ret',
+      ''
+    ].join('\n'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Like "gbasm-metrics report main.asm", with -I and -D given as include paths and predefined symbols
+  async function report(options: Partial<ReportOptions> = {}, includePaths: string[] = [path.join(dir, 'hardware')], defines: [string, string][] = []): Promise<MetricsReport> {
+    const project = new Project();
+    project.setOptions({ includePaths });
+    project.constantTable.setPredefined(new Map(defines));
+    return new MetricsReporter(project).run([path.join(dir, 'main.asm')], { ...DEFAULT_REPORT_OPTIONS, rootPath: dir, ...options });
+  }
+
+  it('reports routines, sections and banks with paths relative to the root', async () => {
+    const result = await report();
+
+    assert.deepStrictEqual(result.files, ['main.asm']);
+    assert.deepStrictEqual(result.routines.map(routine => [routine.name, routine.file, routine.line, routine.bytes, routine.maxCycles]), [
+      ['VBlank', 'main.asm', 4, 6, 84],
+      ['Padded', 'main.asm', 15, 5, 16]
+    ]);
+    assert.deepStrictEqual(result.routines[0].budget, { profile: 'hblank', cycles: 204, worstCycles: 84, percent: 41, exact: true, status: 'ok' });
+    assert.deepStrictEqual(result.sections, [{ name: 'Main', type: 'ROM0', bank: undefined, address: undefined, bytes: 11, file: 'main.asm', line: 2 }]);
+    assert.deepStrictEqual(result.banks, [{ type: 'ROM0', bank: undefined, used: 11, limit: 16384, status: 'ok' }]);
+  });
+
+  it('reports unknown budget profiles as violations', async () => {
+    const result = await report();
+
+    assert.deepStrictEqual(result.violations, [
+      { file: 'main.asm', line: 15, kind: 'unknown-budget', message: "Padded: unknown budget profile 'tiny'" }
+    ]);
+  });
+
+  it('checks routines against --budget profiles and the --max-routine limits', async () => {
+    const result = await report({ budgets: { ...DEFAULT_BUDGET_PROFILES, tiny: 10 }, maxRoutineBytes: 5, maxRoutineCycles: 50 });
+
+    assert.deepStrictEqual(result.violations.map(violation => [violation.kind, violation.line, violation.message]), [
+      ['routine-bytes', 4, 'VBlank: 6 bytes, over the limit of 5'],
+      ['routine-cycles', 4, 'VBlank: 84 cycles on its worst-case path, over the limit of 50'],
+      ['budget', 15, 'Padded: tiny 160% (16c/10c)']
+    ]);
+  });
+
+  it('uses -D symbols for IF blocks and -I directories for includes', async () => {
+    const defined = await report({}, [path.join(dir, 'hardware')], [['FAST', '1']]);
+    const withoutIncludes = await report({}, []);
+
+    assert.strictEqual(defined.routines[0].bytes, 1);
+    assert.strictEqual(withoutIncludes.routines[1].bytes, 1);
+  });
+
+  it('formats the report as JSON, CSV and markdown', async () => {
+    const result = await report();
+    const formatter = new ReportFormatter();
+
+    assert.deepStrictEqual(JSON.parse(formatter.format(result, 'json')), JSON.parse(JSON.stringify(result)));
+    assert.deepStrictEqual(formatter.format(result, 'csv').split('\n'), [
+      'kind,name,file,line,bytes,min_cycles,max_cycles,budget,budget_cycles,worst_cycles,budget_status,type,bank,address',
+      'routine,VBlank,main.asm,4,6,84,84,hblank,204,84,ok,,,',
+      'routine,Padded,main.asm,15,5,16,16,tiny,,16,unknown,,,',
+      'section,Main,main.asm,2,11,,,,,,,ROM0,,',
+      ''
+    ]);
+    const markdown = formatter.format(result, 'md');
+    assert.ok(markdown.includes("## Violations\n\n- Padded: unknown budget profile 'tiny' (main.asm:15)\n"));
+    assert.ok(markdown.includes('| VBlank | 6 | 84 | hblank 41% (84/204) ok | main.asm:4 |'));
+    assert.ok(markdown.includes('| ROM0 | - | 11 | 16384 | ok |'));
+    assert.ok(markdown.includes('| Main | ROM0 | - | - | 11 | main.asm:2 |'));
+  });
+});
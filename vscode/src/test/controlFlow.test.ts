@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { Project } from '../core/project';
+import { analyzeSource } from './helpers';
+
+describe('ControlFlowAnalyzer', () => {
+  it('counts every iteration of a REPT block in a routine', () => {
+    const [routine] = analyzeSource(new Project(), `
+      SECTION "Main", ROM0
+      Copy:
+        REPT 4
+          ld a, [hl+]
+          ld [de], a
+          inc de
+        ENDR
+        ret
+    `).routines;
+
+    // 4 * (8 + 8 + 8) + 16
+    assert.strictEqual(routine.minCycles, 112);
+    assert.strictEqual(routine.maxCycles, 112);
+  });
+
+  it('counts every iteration of nested FOR blocks', () => {
+    const [routine] = analyzeSource(new Project(), `
+      SECTION "Main", ROM0
+      Clear:
+        FOR Y, 2
+          FOR X, 3
+            ld [hl+], a
+          ENDR
+        ENDR
+        ret
+    `).routines;
+
+    assert.strictEqual(routine.maxCycles, 2 * 3 * 8 + 16);
+  });
+});
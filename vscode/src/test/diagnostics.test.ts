@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { Project } from '../core/project';
+import { analyzeSource, testFile } from './helpers';
+
+function diagnosticMessages(source: string): string[] {
+  const project = new Project();
+  const analysis = analyzeSource(project, source);
+  return project.diagnosticsAnalyzer.analyze(testFile('main.asm'), analysis.parsedLines, analysis.costs).map(diagnostic => diagnostic.message);
+}
+
+describe('DiagnosticsAnalyzer', () => {
+  it('reports unknown symbols and invalid operands', () => {
+    assert.deepStrictEqual(diagnosticMessages(`
+      SECTION "Main", ROM0
+      Main:
+        ld a, MISSING
+        ld bc, a
+        ret
+    `), ["Unknown symbol 'MISSING'", "'ld bc, a' is not a valid instruction"]);
+  });
+
+  it('knows the variables of enclosing FOR blocks', () => {
+    assert.deepStrictEqual(diagnosticMessages(`
+      SECTION "Main", ROM0
+      Main:
+        FOR V, 0, 4
+          FOR W, 2
+            ld a, V + W
+          ENDR
+        ENDR
+        ret
+    `), []);
+  });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { Project } from '../core/project';
+import { analyzeSource } from './helpers';
+
+function flagWarnings(source: string): string[] {
+  return analyzeSource(new Project(), source).routines.flatMap(routine => routine.flags.warnings.map(warning => warning.code));
+}
+
+describe('FlagAnalyzer', () => {
+  it('lists every instruction that may have set a flag', () => {
+    const [routine] = analyzeSource(new Project(), `
+      SECTION "Main", ROM0
+      Check:
+        dec b
+        jr z, .done
+        cp 3
+      .done
+        ret c
+        ret
+    `).routines;
+
+    const use = routine.flags.uses.find(candidate => candidate.flag === 'C')!;
+    assert.deepStrictEqual(use.sources.map(source => source.kind === 'entry' ? 'entry' : source.line), ['entry', 4]);
+  });
+
+  it('warns when a forced flag is tested', () => {
+    assert.deepStrictEqual(flagWarnings(`
+      SECTION "Main", ROM0
+      Check:
+        cp 3
+        and $0F
+        jr c, .skip
+        nop
+      .skip
+        ret
+    `), ['flag-clobbered']);
+  });
+
+  it('does not warn when only some paths force the flag', () => {
+    assert.deepStrictEqual(flagWarnings(`
+      SECTION "Main", ROM0
+      Check:
+        cp 3
+        jr z, .test
+        and a
+      .test
+        jr c, .skip
+        nop
+      .skip
+        ret
+    `), []);
+  });
+});
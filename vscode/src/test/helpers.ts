@@ -0,0 +1,24 @@
+import * as path from 'path';
+import { FileAnalysis, Project } from '../core/project';
+
+// Files under a directory that doesn't exist, so nothing is read from disk
+export const TEST_DIR = path.resolve('/gbasm-metrics-test');
+
+export function testFile(name: string): string {
+  return path.join(TEST_DIR, name);
+}
+
+// Source text as editor lines; a leading newline and the common indentation are dropped
+export function sourceLines(source: string): string[] {
+  const lines = source.replace(/^\n/, '').replace(/\n\s*$/, '').split('\n');
+  const indent = Math.min(...lines.filter(line => line.trim()).map(line => line.length - line.trimStart().length));
+  return lines.map(line => line.slice(indent));
+}
+
+// Indexes and analyzes one file, like a freshly opened editor
+export function analyzeSource(project: Project, source: string, name = 'main.asm'): FileAnalysis {
+  const filePath = testFile(name);
+  const lines = sourceLines(source);
+  project.indexFile(filePath, lines);
+  return project.analyze(filePath, lines);
+}
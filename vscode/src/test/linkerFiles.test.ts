@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { Project } from '../core/project';
+import { analyzeSource, sourceLines, testFile } from './helpers';
+
+const SYM_FILE = sourceLines(`
+  ; File generated by rgblink
+  00:0150 Main
+  00:0153 Main.loop ; local label
+  01:4000 VBlank
+  01:4000 VBlankAlias
+  01:4010 vblank
+`).join('\n');
+
+const MAP_FILE = sourceLines(`
+  SUMMARY:
+    ROM0: 20 bytes used / 16364 free
+  ROM0 bank #0:
+    SECTION: $0150-$0163 ($0014 bytes) ["Main"]
+  	         $0150 = Main
+    EMPTY: $0164-$3fff ($3e9c bytes)
+  ROMX bank #1:
+    SECTION: $4000-$4001 ($0002 bytes) ["VBlank"]
+    SECTION: $4002-$4002 ($0001 byte) ["VBlank"]
+  WRAM0 bank #0:
+    SECTION: $c000-$c0ff ($0100 bytes) ["Buffers"]
+`).join('\n');
+
+describe('LinkerFiles', () => {
+  it('reads label addresses from a .sym file', () => {
+    const { linkerFiles } = new Project();
+    linkerFiles.loadSymFile(testFile('game.sym'), SYM_FILE);
+
+    assert.deepStrictEqual(linkerFiles.getSymbol('main'), { name: 'Main', bank: 0, address: 0x150 });
+    assert.deepStrictEqual(linkerFiles.getSymbol('Main.loop'), { name: 'Main.loop', bank: 0, address: 0x153 });
+    // The first of two names differing only in case wins
+    assert.deepStrictEqual(linkerFiles.getSymbol('VBLANK'), { name: 'VBlank', bank: 1, address: 0x4000 });
+    assert.strictEqual(linkerFiles.formatAddress(1, 0x4000), '01:4000');
+    assert.strictEqual(linkerFiles.getSymPath(), testFile('game.sym'));
+  });
+
+  it('reads section placement from a .map file', () => {
+    const { linkerFiles } = new Project();
+    assert.strictEqual(linkerFiles.hasMap(), false);
+    linkerFiles.loadMapFile(testFile('game.map'), MAP_FILE);
+
+    assert.strictEqual(linkerFiles.hasMap(), true);
+    assert.deepStrictEqual(linkerFiles.getSections(), [
+      { name: 'Main', type: 'ROM0', bank: 0, address: 0x150, bytes: 20 },
+      { name: 'VBlank', type: 'ROMX', bank: 1, address: 0x4000, bytes: 2 },
+      { name: 'VBlank', type: 'ROMX', bank: 1, address: 0x4002, bytes: 1 },
+      { name: 'Buffers', type: 'WRAM0', bank: 0, address: 0xC000, bytes: 256 }
+    ]);
+  });
+
+  it('compares section sizes from the source with the linked ones', () => {
+    const project = new Project();
+    analyzeSource(project, `
+      SECTION "Main", ROM0
+      Main:
+        ds 20
+      SECTION "VBlank", ROMX
+      VBlank:
+        ds 2
+    `);
+    project.linkerFiles.loadMapFile(testFile('game.map'), MAP_FILE);
+    const mismatches = project.linkerFiles.compareSections(project.sectionUsageAnalyzer.getMergedSections());
+
+    // Both pieces of a FRAGMENT-style section count towards its linked size
+    assert.deepStrictEqual(mismatches.map(mismatch => [mismatch.name, mismatch.computed.bytes, mismatch.linked.bytes]), [['VBlank', 2, 3]]);
+  });
+});
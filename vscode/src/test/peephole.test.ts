@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { Project } from '../core/project';
+import { PeepholeHint } from '../parser/types';
+import { analyzeSource } from './helpers';
+
+function hints(source: string): PeepholeHint[] {
+  const project = new Project();
+  const analysis = analyzeSource(project, source);
+  return project.peepholeOptimizer.analyze(analysis.parsedLines, analysis.costs);
+}
+
+describe('PeepholeOptimizer', () => {
+  it('suggests each rule with the bytes and cycles it saves', () => {
+    const found = hints(`
+      SECTION "Main", ROM0
+      Main:
+        ld a, 0 ; clear
+        cp 0
+        ld [$FF40], a
+        sla a
+        jp .done
+      .done
+        call Helper
+        ret
+      Helper:
+        ret
+    `);
+
+    assert.deepStrictEqual(found.map(hint => [hint.rule, hint.lineNumber, hint.replacement, hint.removedLines, hint.bytesSaved, hint.cyclesSaved]), [
+      ['ld-a-zero', 2, '  xor a ; clear', [], 1, 4],
+      ['cp-zero', 3, '  and a', [], 1, 4],
+      ['ldh', 4, '  ldh [$FF40], a', [], 1, 4],
+      ['sla-a', 5, '  add a, a', [], 1, 4],
+      ['jp-to-jr', 6, '  jr .done', [], 1, 4],
+      ['tail-call', 8, '  jp Helper', [9], 1, 24]
+    ]);
+  });
+
+  it('notes the flags a replacement sets differently', () => {
+    const [hint] = hints(`
+      SECTION "Main", ROM0
+      Main:
+        sla a
+        ret
+    `);
+
+    assert.strictEqual(hint.title, 'sla a → add a, a');
+    assert.deepStrictEqual(hint.notes, ['Flags H differ: sla a [Z N H C = Z 0 0 C], add a, a [Z N H C = Z 0 H C]']);
+  });
+
+  it('leaves lines alone that no rule fits', () => {
+    assert.deepStrictEqual(hints(`
+      SECTION "Main", ROM0
+      Main:
+        ld a, [hl]
+        cp 1
+        ld [$C000], a
+        ldh [$FF41], a
+        jp hl
+      Helper:
+        call Main
+      .ret
+        ret
+    `), []);
+  });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { Project } from '../core/project';
+import { analyzeSource, sourceLines, testFile } from './helpers';
+
+describe('Project', () => {
+  it('costs each line and keeps cumulative totals', () => {
+    const analysis = analyzeSource(new Project(), `
+      SECTION "Main", ROM0
+      Main:
+        ld a, $90
+        ld [hl+], a
+        ret
+    `);
+
+    assert.deepStrictEqual(analysis.lines.map(line => [line.lineNumber, line.bytes, line.cycles]), [[2, 2, 8], [3, 1, 8], [4, 1, 16]]);
+    assert.strictEqual(analysis.lines[2].cumulativeBytes, 4);
+    assert.strictEqual(analysis.lines[2].cumulativeCycles, 32);
+    assert.strictEqual(analysis.lines[0].encoding, '3E 90');
+  });
+
+  it('finds best and worst cycles of each routine', () => {
+    const [routine] = analyzeSource(new Project(), `
+      SECTION "Main", ROM0
+      Wait:
+        ld a, [hl]
+        and a
+        ret z
+        xor a
+        ret
+    `).routines;
+
+    assert.strictEqual(routine.name, 'Wait');
+    assert.strictEqual(routine.minCycles, 8 + 4 + 20);
+    assert.strictEqual(routine.maxCycles, 8 + 4 + 8 + 4 + 16);
+  });
+
+  it('counts only the given ranges', () => {
+    const project = new Project();
+    const lines = ['SECTION "Main", ROM0', 'Main:', '  nop', '  nop', '  nop', '  ret'];
+    const analysis = project.analyze(testFile('main.asm'), lines, [{ startLine: 3, endLine: 4 }]);
+
+    assert.deepStrictEqual(analysis.lines.map(line => line.counting), [false, true, true, false]);
+    assert.strictEqual(analysis.lines[2].cumulativeCycles, 8);
+  });
+
+  it('totals each range with macro calls and loop iterations', () => {
+    const project = new Project();
+    const lines = sourceLines(`
+      twice: MACRO
+        nop
+        nop
+      ENDM
+      SECTION "Main", ROM0
+      Main:
+        twice
+        ld b, 4
+      .loop
+        dec b
+        jr nz, .loop
+        ret
+    `);
+    project.indexFile(testFile('main.asm'), lines);
+    analyzeSource(project, 'SECTION "Other", ROM0\nOther:\n  ret', 'other.asm');
+    const analysis = project.analyze(testFile('main.asm'), lines, [{ startLine: 6, endLine: 11 }]);
+
+    // 8 + 8 + 4 * 4 + 3 * 12 + 8 + 16, or 4 * 12 for jr when it is assumed taken each time
+    assert.deepStrictEqual(analysis.rangeTotals, [{ startLine: 6, endLine: 11, bytes: 8, cycles: 96, minCycles: 92, maxCycles: 96 }]);
+    assert.strictEqual(analysis.lines.find(line => line.lineNumber === 11)?.cumulativeCycles, 96);
+  });
+
+  it('gives the same results when a file is analyzed again', () => {
+    const project = new Project();
+    project.constantTable.setPredefined(new Map([['COUNT', '1']]));
+    const lines = ['DEF COUNT = COUNT + 1', 'SECTION "Main", ROM0', 'Main:', '  ds COUNT', '  ret'];
+    project.indexFile(testFile('main.asm'), lines);
+    const first = project.analyze(testFile('main.asm'), lines);
+    const again = project.analyze(testFile('main.asm'), lines);
+
+    assert.strictEqual(project.constantTable.get('COUNT')?.value, 2);
+    assert.deepStrictEqual(again.lines.map(line => line.bytes), first.lines.map(line => line.bytes));
+  });
+
+  it('indexes the symbols of the analyzed contents', () => {
+    const project = new Project();
+    analyzeSource(project, 'SECTION "Main", ROM0\nOld:\n  ret');
+    project.analyze(testFile('main.asm'), ['SECTION "Main", ROM0', 'New:', '  ld a, 1', '  ret']);
+
+    assert.strictEqual(project.symbolIndex.getDefinitions('Old').length, 0);
+    const [label] = project.symbolIndex.getDefinitions('New');
+    assert.deepStrictEqual([label.lineNumber, label.bytes, label.cycles], [1, 3, 24]);
+  });
+
+  it('keeps the symbols of separate projects apart', () => {
+    const first = new Project();
+    const second = new Project();
+    analyzeSource(first, 'DEF COUNT EQU 3');
+
+    assert.strictEqual(first.constantTable.get('COUNT')?.value, 3);
+    assert.strictEqual(second.constantTable.get('COUNT'), undefined);
+  });
+});
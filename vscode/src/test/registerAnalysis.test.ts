@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { Project } from '../core/project';
+import { analyzeSource, testFile } from './helpers';
+
+const MUTUAL_RECURSION = `
+  SECTION "Main", ROM0
+  RoutineA:
+    ld d, 1
+    call RoutineB
+    ret
+  RoutineB:
+    ld c, 2
+    dec a
+    ret z
+    call RoutineA
+    ret
+`;
+
+function sorted(registers: Iterable<string>): string[] {
+  return Array.from(registers).sort();
+}
+
+function codes(source: string): string[][] {
+  const project = new Project();
+  analyzeSource(project, source);
+  return project.registerAnalyzer.checkFile(testFile('main.asm')).map(diagnostic => [diagnostic.code!, diagnostic.message]);
+}
+
+describe('RegisterAnalyzer', () => {
+  it('finds the inputs and clobbers of a routine and its callees', () => {
+    const project = new Project();
+    analyzeSource(project, `
+      SECTION "Main", ROM0
+      Copy:
+        ld a, [hl+]
+        ld [de], a
+        inc de
+        dec c
+        jr nz, Copy
+        call Clear
+        ret
+      Clear:
+        xor a
+        ld b, a
+        ret
+    `);
+    const summary = project.registerAnalyzer.getSummary('Copy')!;
+
+    assert.deepStrictEqual(sorted(summary.inputs), ['c', 'd', 'e', 'h', 'l']);
+    assert.deepStrictEqual(sorted(summary.clobbers), ['a', 'b', 'c', 'd', 'e', 'h', 'l']);
+    assert.deepStrictEqual(summary.unknownCalls, []);
+  });
+
+  it('counts registers pushed and popped around their use as preserved', () => {
+    const project = new Project();
+    analyzeSource(project, `
+      SECTION "Main", ROM0
+      Fill:
+        push bc
+        push hl
+        ld b, 8
+        ld hl, $C000
+      .loop
+        ld [hl+], a
+        dec b
+        jr nz, .loop
+        pop hl
+        pop bc
+        ret
+    `);
+    const summary = project.registerAnalyzer.getSummary('Fill')!;
+
+    assert.deepStrictEqual(sorted(summary.inputs), ['a']);
+    assert.deepStrictEqual(sorted(summary.clobbers), []);
+    assert.deepStrictEqual(sorted(summary.preserved), ['b', 'c', 'h', 'l']);
+  });
+
+  it('compares documented inputs with the registers read', () => {
+    assert.deepStrictEqual(codes(`
+      SECTION "Main", ROM0
+      ; Input: a = value, de = destination
+      Store:
+        ld [hl], a
+        ret
+    `), [
+      ['unused-input', 'de is documented as an input of Store, but it is never read before being overwritten'],
+      ['undocumented-input', "Store reads hl before writing them, but the documentation doesn't list them as input"]
+    ]);
+  });
+
+  it('warns when a callee clobbers a register read after the call', () => {
+    assert.deepStrictEqual(codes(`
+      SECTION "Main", ROM0
+      Main:
+        ld b, 4
+        call Clear
+        ld a, b
+        ret
+      Clear:
+        ld b, 0
+        ret
+    `), [['clobbered-register', 'b is set before this call and read after it, but Clear clobbers it']]);
+  });
+
+  it('keeps the effects of the rest of a cycle in a routine analyzed inside it', () => {
+    const project = new Project();
+    analyzeSource(project, MUTUAL_RECURSION);
+
+    // RoutineB is first reached from RoutineA, while RoutineA is still being analyzed
+    assert.deepStrictEqual(Array.from(project.registerAnalyzer.getSummary('RoutineA')!.clobbers).sort(), ['a', 'c', 'd']);
+    assert.deepStrictEqual(Array.from(project.registerAnalyzer.getSummary('RoutineB')!.clobbers).sort(), ['a', 'c', 'd']);
+  });
+});
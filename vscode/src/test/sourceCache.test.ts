@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { Project } from '../core/project';
+
+describe('SourceCache', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gbasm-metrics-'));
+    fs.mkdirSync(path.join(dir, 'inc'));
+    fs.writeFileSync(path.join(dir, 'inc', 'constants.inc'), 'DEF SIZE EQU 3\n');
+    fs.writeFileSync(path.join(dir, 'main.asm'), 'INCLUDE "constants.inc"\nSECTION "Main", ROM0\nMain:\n  ds SIZE\n  ret\n');
+    fs.writeFileSync(path.join(dir, 'broken.asm'), 'INCLUDE "missing.inc"\nSECTION "Broken", ROM0\nBroken:\n  ret\n');
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads includes before analyzing a file', async () => {
+    const project = new Project();
+    const lines = await project.analyzeFile(path.join(dir, 'main.asm'));
+
+    assert.strictEqual(lines.find(line => line.lineNumber === 3)?.bytes, 3);
+    assert.deepStrictEqual(project.sources.getDependents(path.join(dir, 'inc', 'constants.inc')), [path.join(dir, 'main.asm')]);
+  });
+
+  it('only reads what was loaded', () => {
+    const project = new Project();
+
+    assert.strictEqual(project.sources.read(path.join(dir, 'main.asm')), undefined);
+    project.indexFile(path.join(dir, 'main.asm'), ['INCLUDE "constants.inc"']);
+    assert.deepStrictEqual(project.sources.getUnresolvedIncluders(), [path.join(dir, 'main.asm')]);
+  });
+
+  it('treats a missing include as unresolved', async () => {
+    const project = new Project();
+    await project.analyzeFile(path.join(dir, 'broken.asm'));
+
+    assert.deepStrictEqual(project.sources.getUnresolvedIncluders(), [path.join(dir, 'broken.asm')]);
+  });
+});
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { Project } from '../core/project';
+import { analyzeSource, testFile } from './helpers';
+
+function warnings(source: string): (string | number)[][] {
+  const project = new Project();
+  analyzeSource(project, source);
+  return project.stackAnalyzer.checkFile(testFile('main.asm')).map(warning => [warning.lineNumber, warning.code!, warning.message]);
+}
+
+describe('StackAnalyzer', () => {
+  it('finds the deepest point with callees and their return addresses', () => {
+    const project = new Project();
+    analyzeSource(project, `
+      SECTION "Main", ROM0
+      Main:
+        push af
+        push bc
+        call Helper
+        pop bc
+        pop af
+        ret
+      Helper:
+        push hl
+        add sp, -4
+        add sp, 4
+        pop hl
+        ret
+    `);
+    const summary = project.stackAnalyzer.getSummary('Main')!;
+
+    // 4 pushed, the return address, then 2 + 4 in Helper
+    assert.deepStrictEqual([summary.maxDepth, summary.deepestLine, summary.deepestVia, summary.exact, summary.balanced], [12, 4, 'Helper', true, true]);
+    assert.strictEqual(project.stackAnalyzer.formatDepth(summary), '12 bytes');
+  });
+
+  it('gives a lower bound past rst and ld sp', () => {
+    const project = new Project();
+    analyzeSource(project, `
+      SECTION "Main", ROM0
+      Main:
+        rst $38
+        ld sp, $DFFF
+        push bc
+        ret
+    `);
+    const summary = project.stackAnalyzer.getSummary('Main')!;
+
+    assert.deepStrictEqual([summary.maxDepth, summary.exact, summary.unknownCalls], [2, false, ['rst $38']]);
+    assert.strictEqual(project.stackAnalyzer.formatDepth(summary), 'at least 2 bytes');
+  });
+
+  it('warns about returns with bytes still pushed or already popped', () => {
+    assert.deepStrictEqual(warnings(`
+      SECTION "Main", ROM0
+      Pushes:
+        push bc
+        ret z
+        pop bc
+        ret
+      Pops:
+        pop bc
+        ret
+    `), [
+      [3, 'stack-imbalance', "'ret z' is reached with 2 bytes still pushed; it would return to a pushed value instead of the caller"],
+      [8, 'stack-imbalance', "'ret' is reached after popping 2 bytes more than were pushed; the return address was already taken"]
+    ]);
+  });
+
+  it('warns where paths meet with different depths', () => {
+    assert.deepStrictEqual(warnings(`
+      SECTION "Main", ROM0
+      Main:
+        jr z, .skip
+        push bc
+      .skip
+        pop bc
+        ret
+    `), [
+      [6, 'stack-imbalance', "'ret' is reached after popping 2 bytes more than were pushed; the return address was already taken"],
+      [5, 'stack-mismatch', 'Paths reach this line with different stack depths (0 and 2 bytes pushed since Main)']
+    ]);
+  });
+
+  it('keeps the depth of the rest of a cycle in a routine analyzed inside it', () => {
+    const project = new Project();
+    analyzeSource(project, `
+      SECTION "Main", ROM0
+      RoutineA:
+        push bc
+        call RoutineB
+        pop bc
+        ret
+      RoutineB:
+        dec a
+        ret z
+        call RoutineA
+        ret
+    `);
+
+    // One pass through the cycle: push, return into A, return into B, and the push again
+    assert.strictEqual(project.stackAnalyzer.getSummary('RoutineA')!.maxDepth, 6);
+    assert.strictEqual(project.stackAnalyzer.getSummary('RoutineB')!.maxDepth, 8);
+    assert.deepStrictEqual(project.stackAnalyzer.getSummary('RoutineB')!.unknownCalls, []);
+  });
+});